@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // src/lib/tokens.ts imports the token list shared with ../nodejs
+    externalDir: true,
+  },
 };
 
 export default nextConfig;
@@ -1,3 +1,5 @@
+import { formatTokenAmount, type TokenInfo } from "../lib/tokens";
+
 interface Quote {
   id?: string;
   sellAmount: string;
@@ -14,9 +16,19 @@ interface Quote {
 
 interface QuoteCardProps {
   quote: Quote;
+  /** `null` while unknown; amounts are then shown in base units */
+  sellToken: TokenInfo | null;
+  buyToken: TokenInfo | null;
+  /** Gas token of the origin chain, `null` if unknown */
+  nativeToken: TokenInfo | null;
 }
 
-export default function QuoteCard({ quote }: QuoteCardProps) {
+export default function QuoteCard({
+  quote,
+  sellToken,
+  buyToken,
+  nativeToken,
+}: QuoteCardProps) {
   const formatTime = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`;
     const minutes = Math.floor(seconds / 60);
@@ -25,18 +37,18 @@ export default function QuoteCard({ quote }: QuoteCardProps) {
     return `${hours}h ${minutes % 60}m`;
   };
 
-  const formatAmount = (amount: string, decimals = 6) => {
-    const num = parseFloat(amount) / Math.pow(10, decimals);
-    return num.toLocaleString(undefined, {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 6,
-    });
+  const formatAmount = (amount: string, token: TokenInfo | null) => {
+    if (!token) return `${amount} base units`;
+    return `${formatTokenAmount(amount, token.decimals)} ${token.symbol}`;
   };
 
-  const formatGas = (gasWei: string) => {
-    const gasEth = parseFloat(gasWei) / Math.pow(10, 18);
-    if (gasEth < 0.001) return "< 0.001 ETH";
-    return `${gasEth.toFixed(4)} ETH`;
+  const formatGas = (fee: string) => {
+    if (!nativeToken) return `${fee} base units`;
+    // Compare in base units: 0.001 is 10^(decimals - 3)
+    const threshold =
+      BigInt(10) ** BigInt(Math.max(nativeToken.decimals - 3, 0));
+    if (BigInt(fee) < threshold) return `< 0.001 ${nativeToken.symbol}`;
+    return formatAmount(fee, nativeToken);
   };
 
   return (
@@ -61,18 +73,20 @@ export default function QuoteCard({ quote }: QuoteCardProps) {
       <div className="grid grid-cols-2 gap-4 mb-3">
         <div>
           <p className="text-sm text-gray-500">Sell Amount</p>
-          <p className="font-medium">{formatAmount(quote.sellAmount)} USDC</p>
+          <p className="font-medium">
+            {formatAmount(quote.sellAmount, sellToken)}
+          </p>
         </div>
         <div>
           <p className="text-sm text-gray-500">Buy Amount</p>
           <p className="font-medium text-green-600">
-            {formatAmount(quote.buyAmount)} USDC
+            {formatAmount(quote.buyAmount, buyToken)}
           </p>
         </div>
       </div>
 
       <div className="text-xs text-gray-400">
-        <p>Min Buy: {formatAmount(quote.minBuyAmount)} USDC</p>
+        <p>Min Buy: {formatAmount(quote.minBuyAmount, buyToken)}</p>
         <p className="truncate">Allowance Target: {quote.allowanceTarget}</p>
       </div>
     </div>
@@ -1,6 +1,13 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import {
+  formatTokenAmount,
+  getKnownToken,
+  getNativeToken,
+  resolveToken,
+  type TokenInfo,
+} from "../lib/tokens";
 import QuoteCard from "./QuoteCard";
 
 interface Quote {
@@ -75,6 +82,27 @@ export default function StreamingQuote({
   );
   const abortControllerRef = useRef<AbortController | null>(null);
   const hasStartedRef = useRef(false);
+  const [tokens, setTokens] = useState<{
+    sell: TokenInfo | null;
+    buy: TokenInfo | null;
+  }>(() => ({
+    sell: getKnownToken(originChain, sellToken),
+    buy: getKnownToken(destinationChain, buyToken),
+  }));
+
+  // Look up decimals and symbols of tokens missing from the built-in list
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      resolveToken(originChain, sellToken),
+      resolveToken(destinationChain, buyToken),
+    ]).then(([sell, buy]) => {
+      if (!cancelled) setTokens({ sell, buy });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [originChain, destinationChain, sellToken, buyToken]);
 
   const startStreaming = async () => {
     if (abortControllerRef.current) {
@@ -306,7 +334,13 @@ export default function StreamingQuote({
             </h3>
             <div className="grid gap-4">
               {quotes.map((quote, index) => (
-                <QuoteCard key={`quote-${index}`} quote={quote} />
+                <QuoteCard
+                  key={`quote-${index}`}
+                  quote={quote}
+                  sellToken={tokens.sell}
+                  buyToken={tokens.buy}
+                  nativeToken={getNativeToken(originChain)}
+                />
               ))}
             </div>
           </div>
@@ -339,7 +373,10 @@ export default function StreamingQuote({
               {chainNames[destinationChain] || destinationChain}
             </div>
             <div>
-              <span className="font-medium">Sell Amount:</span> {sellAmount}
+              <span className="font-medium">Sell Amount:</span>{" "}
+              {tokens.sell
+                ? `${formatTokenAmount(sellAmount, tokens.sell.decimals)} ${tokens.sell.symbol}`
+                : sellAmount}
             </div>
             <div className="col-span-2 truncate">
               <span className="font-medium">Sell Token:</span> {sellToken}
@@ -0,0 +1,177 @@
+import tokenList from "../../../nodejs/src/tokenList.json";
+
+export interface TokenInfo {
+  symbol: string;
+  decimals: number;
+  isNative: boolean;
+  isWrapped: boolean;
+}
+
+/** Placeholder the 0x API uses for the native token of EVM chains */
+export const NATIVE_TOKEN_ADDRESS =
+  "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+interface ChainConfig {
+  native: { symbol: string; decimals: number };
+  /** EVM JSON-RPC endpoint for ERC-20 metadata reads */
+  rpcUrl?: string;
+}
+
+// Chains offered in the form, plus Solana and Tron whose gas tokens are not 18-decimal
+const CHAINS: Record<string, ChainConfig> = {
+  "1": {
+    native: { symbol: "ETH", decimals: 18 },
+    rpcUrl: "https://eth.llamarpc.com",
+  },
+  "10": {
+    native: { symbol: "ETH", decimals: 18 },
+    rpcUrl: "https://mainnet.optimism.io",
+  },
+  "137": {
+    native: { symbol: "POL", decimals: 18 },
+    rpcUrl: "https://polygon-rpc.com",
+  },
+  "8453": {
+    native: { symbol: "ETH", decimals: 18 },
+    rpcUrl: "https://mainnet.base.org",
+  },
+  "42161": {
+    native: { symbol: "ETH", decimals: 18 },
+    rpcUrl: "https://arb1.arbitrum.io/rpc",
+  },
+  "999999999991": { native: { symbol: "SOL", decimals: 9 } },
+  "999999999993": { native: { symbol: "TRX", decimals: 6 } },
+};
+
+// EVM addresses are case-insensitive; Solana and Tron base58 addresses are not
+function tokenKey(chainId: string | number, address: string): string {
+  const normalized = address.startsWith("0x") ? address.toLowerCase() : address;
+  return `${chainId}:${normalized}`;
+}
+
+// The standard token list shared with the Node.js examples
+const KNOWN_TOKENS = new Map<string, TokenInfo>(
+  tokenList.tokens.map((token) => [
+    tokenKey(token.chainId, token.address),
+    {
+      symbol: token.symbol,
+      decimals: token.decimals,
+      isNative: false,
+      isWrapped: token.tags?.includes("wrapped") ?? false,
+    },
+  ]),
+);
+
+/**
+ * Gas token of a chain, used for network fees; `null` for chains not listed above
+ */
+export function getNativeToken(chainId: string): TokenInfo | null {
+  const chain = CHAINS[chainId];
+  return chain ? { ...chain.native, isNative: true, isWrapped: false } : null;
+}
+
+/**
+ * Known token without network requests, or `null`
+ */
+export function getKnownToken(
+  chainId: string,
+  address: string,
+): TokenInfo | null {
+  if (address.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+    return getNativeToken(chainId);
+  }
+  return KNOWN_TOKENS.get(tokenKey(chainId, address)) ?? null;
+}
+
+const resolved = new Map<string, Promise<TokenInfo | null>>();
+
+/**
+ * Known token, falling back to reading ERC-20 `decimals()` and `symbol()` on-chain.
+ * Results are cached for the session; `null` if the token cannot be read.
+ */
+export function resolveToken(
+  chainId: string,
+  address: string,
+): Promise<TokenInfo | null> {
+  const known = getKnownToken(chainId, address);
+  if (known) {
+    return Promise.resolve(known);
+  }
+
+  const key = tokenKey(chainId, address);
+  let token = resolved.get(key);
+  if (!token) {
+    token = readErc20(chainId, address).catch(() => null);
+    resolved.set(key, token);
+  }
+  return token;
+}
+
+const DECIMALS_SELECTOR = "0x313ce567";
+const SYMBOL_SELECTOR = "0x95d89b41";
+
+async function readErc20(chainId: string, address: string): Promise<TokenInfo> {
+  const rpcUrl = CHAINS[chainId]?.rpcUrl;
+  if (!rpcUrl) {
+    throw new Error(`No RPC endpoint for chain ${chainId}`);
+  }
+
+  const call = async (data: string): Promise<string> => {
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "eth_call",
+        params: [{ to: address, data }, "latest"],
+      }),
+    });
+    const { result } = await response.json();
+    if (typeof result !== "string" || result === "0x") {
+      throw new Error(`eth_call to ${address} failed`);
+    }
+    return result;
+  };
+
+  const [decimals, symbol] = await Promise.all([
+    call(DECIMALS_SELECTOR),
+    call(SYMBOL_SELECTOR),
+  ]);
+  return {
+    symbol: decodeSymbol(symbol),
+    decimals: Number(BigInt(decimals)),
+    isNative: false,
+    isWrapped: false,
+  };
+}
+
+// ABI-encoded string, or bytes32 for older tokens such as MKR
+function decodeSymbol(hex: string): string {
+  const data = hex.slice(2);
+  const bytes =
+    data.length > 64
+      ? data.slice(128, 128 + Number.parseInt(data.slice(64, 128), 16) * 2)
+      : data.replace(/(00)+$/, "");
+  return new TextDecoder().decode(
+    new Uint8Array(
+      (bytes.match(/.{2}/g) ?? []).map((byte) => Number.parseInt(byte, 16)),
+    ),
+  );
+}
+
+/**
+ * Exact decimal formatting of base units, with 2 to 6 fraction digits
+ */
+export function formatTokenAmount(amount: string, decimals: number): string {
+  const digits = BigInt(amount)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = BigInt(digits.slice(0, digits.length - decimals));
+  const fraction = digits
+    .slice(digits.length - decimals)
+    .slice(0, 6)
+    .replace(/0+$/, "")
+    .padEnd(2, "0");
+  return `${whole.toLocaleString("en-US")}.${fraction}`;
+}
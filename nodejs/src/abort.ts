@@ -0,0 +1,93 @@
+import { ZeroExAbortError, ZeroExTimeoutError } from "./errors";
+
+/**
+ * Convert the reason of an aborted signal into a ZeroExAbortError
+ */
+export function toAbortError(signal: AbortSignal): ZeroExAbortError {
+  return signal.reason instanceof ZeroExAbortError
+    ? signal.reason
+    : new ZeroExAbortError(undefined, signal.reason);
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
+/**
+ * Wait for `ms`, rejecting early with a ZeroExAbortError if the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle like `promise`, or reject early with a ZeroExAbortError if the signal fires
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Combine a caller signal and a timeout into a single signal.
+ * Call `dispose` once the operation settles to clear the timer.
+ */
+export function createAbortScope(
+  signal?: AbortSignal,
+  timeoutMs?: number,
+): { signal?: AbortSignal; dispose: () => void } {
+  if (timeoutMs === undefined) {
+    return { signal, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  const timer = setTimeout(
+    () => controller.abort(new ZeroExTimeoutError(timeoutMs)),
+    timeoutMs,
+  );
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import type { z } from "zod";
+import { getAddress, isAddress as isViemAddress, sha256 } from "viem";
+import { isAddress as isSolanaBase58Address } from "@solana/addresses";
+import bs58 from "bs58";
+import { getChain } from "./chains";
+
+/** Address format of a chain: EVM hex, Solana base58 or Tron base58check */
+export type ChainFamily = "evm" | "svm" | "tvm";
+
+// Branded so that addresses of different chain families cannot be mixed up.
+// Obtain them from the `is*` type guards, the `to*` helpers or the address schemas.
+export type EvmAddress = string & z.$brand<"EvmAddress">;
+export type SolanaAddress = string & z.$brand<"SolanaAddress">;
+export type TronAddress = string & z.$brand<"TronAddress">;
+export type ChainAddress = EvmAddress | SolanaAddress | TronAddress;
+
+export type AddressForFamily<F extends ChainFamily> = {
+  evm: EvmAddress;
+  svm: SolanaAddress;
+  tvm: TronAddress;
+}[F];
+
+/**
+ * Address type for an `originChain` / `destinationChain` value, mirroring `getChainFamily` for the built-in chains.
+ * Chains that are not literal types, or not recognized, accept any string.
+ */
+export type AddressForChain<C extends string | number> = C extends unknown
+  ? string extends C
+    ? string
+    : number extends C
+      ? string
+      : Lowercase<`${C}`> extends "solana" | "999999999991"
+        ? SolanaAddress
+        : Lowercase<`${C}`> extends "tron" | "999999999993"
+          ? TronAddress
+          : `${C}` extends `${bigint}`
+            ? EvmAddress
+            : string
+  : never;
+
+/**
+ * Chain family for an `originChain` / `destinationChain` value, or `null` if it is not recognized
+ */
+export function getChainFamily(chain: string | number): ChainFamily | null {
+  const family = getChain(chain)?.family;
+  if (family) {
+    return family;
+  }
+  // Unregistered numeric IDs are assumed to be EVM chain IDs
+  return /^\d+$/.test(String(chain)) ? "evm" : null;
+}
+
+/**
+ * Hex address; mixed-case addresses must carry a valid EIP-55 checksum
+ */
+export function isEvmAddress(address: string): address is EvmAddress {
+  return isViemAddress(address);
+}
+
+export function isSolanaAddress(address: string): address is SolanaAddress {
+  try {
+    return isSolanaBase58Address(address);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Base58check address starting with T (the checksum itself is not verified)
+ */
+export function isTronAddress(address: string): address is TronAddress {
+  return /^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+}
+
+/**
+ * Whether `address` is valid for the given chain family
+ */
+export function isAddressForFamily<F extends ChainFamily>(
+  address: string,
+  family: F,
+): address is AddressForFamily<F> {
+  switch (family) {
+    case "evm":
+      return isEvmAddress(address);
+    case "svm":
+      return isSolanaAddress(address);
+    case "tvm":
+      return isTronAddress(address);
+  }
+}
+
+/**
+ * EIP-55 checksummed form of an EVM address in any letter case
+ */
+export function toEvmAddress(address: string): EvmAddress {
+  if (!isViemAddress(address, { strict: false })) {
+    throw new TypeError(`Invalid EVM address: ${address}`);
+  }
+  if (!isEvmAddress(address)) {
+    // Mixed case is only accepted when it is a valid checksum
+    throw new TypeError(`Invalid EIP-55 checksum: ${address}`);
+  }
+  return getAddress(address) as EvmAddress;
+}
+
+export function toSolanaAddress(address: string): SolanaAddress {
+  if (!isSolanaAddress(address)) {
+    throw new TypeError(`Invalid Solana address: ${address}`);
+  }
+  return address;
+}
+
+/**
+ * Base58check form of a Tron address given as base58 or as the 41-prefixed hex
+ * returned by Tron nodes. Bare 20-byte EVM addresses are rejected.
+ */
+export function toTronAddress(address: string): TronAddress {
+  if (TRON_HEX_ADDRESS.test(address)) {
+    return tronHexToBase58(address);
+  }
+  if (!isTronAddress(address)) {
+    throw new TypeError(`Invalid Tron address: ${address}`);
+  }
+  return address;
+}
+
+// 41-prefixed 21-byte hex as returned by Tron nodes, optionally 0x-prefixed
+const TRON_HEX_ADDRESS = /^(?:0x)?41[0-9a-fA-F]{40}$/;
+// The same, or the 20-byte EVM-style address of the same key
+const TRON_OR_EVM_HEX_ADDRESS = /^(?:0x)?(?:41)?[0-9a-fA-F]{40}$/;
+const TRON_ADDRESS_PREFIX = "41";
+
+/**
+ * Convert a hex Tron address (`41…`, `0x41…` or a 20-byte `0x…` address) to base58check (`T…`)
+ */
+export function tronHexToBase58(hex: string): TronAddress {
+  if (!TRON_OR_EVM_HEX_ADDRESS.test(hex)) {
+    throw new TypeError(`Invalid Tron hex address: ${hex}`);
+  }
+  const body = hex.replace(/^0x/, "").slice(-40).toLowerCase();
+  const payload = Buffer.from(`${TRON_ADDRESS_PREFIX}${body}`, "hex");
+  return bs58.encode(
+    Buffer.concat([payload, tronChecksum(payload)]),
+  ) as TronAddress;
+}
+
+/**
+ * Convert a base58check Tron address to its 41-prefixed hex form, verifying the checksum
+ */
+export function tronBase58ToHex(address: string): string {
+  const decoded = isTronAddress(address)
+    ? Buffer.from(bs58.decode(address))
+    : null;
+  if (
+    !decoded ||
+    decoded.length !== 25 ||
+    !tronChecksum(decoded.subarray(0, 21)).equals(decoded.subarray(21))
+  ) {
+    throw new TypeError(`Invalid Tron address: ${address}`);
+  }
+  return decoded.subarray(0, 21).toString("hex");
+}
+
+// First 4 bytes of a double SHA-256
+function tronChecksum(payload: Uint8Array): Buffer {
+  return Buffer.from(sha256(sha256(payload, "bytes"), "bytes")).subarray(0, 4);
+}
+
+export const CHAIN_FAMILY_NAMES: Record<ChainFamily, string> = {
+  evm: "EVM",
+  svm: "Solana",
+  tvm: "Tron",
+};
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toBigIntAmounts } from "./amounts";
+import { ZeroExSchemaError } from "./errors";
+import { TokenAmount } from "./tokenAmount";
+
+const RESPONSE = { url: "https://api.0x.org/cross-chain/status", status: 200 };
+
+describe("toBigIntAmounts", () => {
+  it("converts amount fields and keeps transactions as returned", () => {
+    const converted = toBigIntAmounts(
+      {
+        buyAmount: "100",
+        fees: { zeroExFee: { amount: "-5", token: "0x1" } },
+        transaction: { value: "7" },
+      },
+      RESPONSE,
+    );
+
+    assert.equal(converted.buyAmount, BigInt(100));
+    assert.equal(converted.fees.zeroExFee.amount, BigInt(-5));
+    assert.equal(converted.transaction.value, "7");
+  });
+
+  it("rejects amounts that are not integers with ZeroExSchemaError", () => {
+    assert.throws(
+      () => toBigIntAmounts({ steps: [{ buyAmount: "1.5" }] }, RESPONSE),
+      (error) =>
+        error instanceof ZeroExSchemaError &&
+        error.issues[0].path.join(".") === "steps.0.buyAmount",
+    );
+  });
+});
+
+describe("TokenAmount.toFixed", () => {
+  it("rounds half away from zero", () => {
+    assert.equal(new TokenAmount("1250", 3).toFixed(2), "1.25");
+    assert.equal(new TokenAmount("-1255", 3).toFixed(2), "-1.26");
+  });
+
+  it("rejects negative or fractional digits", () => {
+    const amount = new TokenAmount("1", 0);
+    assert.throws(() => amount.toFixed(-1), RangeError);
+    assert.throws(() => amount.toFixed(1.5), RangeError);
+  });
+});
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { ZeroExSchemaError } from "./errors";
+
+/** "string" keeps amounts as returned by the API; "bigint" converts them to `bigint` */
+export type AmountMode = "string" | "bigint";
+
+/** Response fields holding token amounts or fees in base units */
+const AMOUNT_FIELDS = [
+  "sellAmount",
+  "buyAmount",
+  "minBuyAmount",
+  "quotedBuyAmount",
+  "settledBuyAmount",
+  "amount",
+  "settledAmount",
+  "actual",
+  "expected",
+  // Gas costs
+  "gasPrice",
+  "gasLimit",
+  "totalNetworkFee",
+  "base",
+  "priority",
+  "total",
+  "energyFee",
+  "bandwidthFee",
+] as const;
+
+/**
+ * Subtrees left untouched: transactions are handed to wallets as returned,
+ * unknown variants keep their raw payload
+ */
+const PRESERVED_FIELDS = ["transaction", "manualTransaction", "raw"] as const;
+
+type AmountField = (typeof AMOUNT_FIELDS)[number];
+type PreservedField = (typeof PRESERVED_FIELDS)[number];
+type ToBigInt<V> = V extends string ? bigint : V;
+
+/**
+ * `T` with every amount field converted from string to bigint
+ */
+export type BigIntAmounts<T> = T extends string | number | boolean | bigint
+  ? T
+  : T extends readonly (infer U)[]
+    ? BigIntAmounts<U>[]
+    : T extends object
+      ? {
+          [K in keyof T]: K extends PreservedField
+            ? T[K]
+            : K extends AmountField
+              ? ToBigInt<T[K]>
+              : BigIntAmounts<T[K]>;
+        }
+      : T;
+
+/** Parsed response type for an amount mode */
+export type WithAmounts<T, A extends AmountMode> = A extends "bigint"
+  ? BigIntAmounts<T>
+  : T;
+
+const amountFields = new Set<string>(AMOUNT_FIELDS);
+const preservedFields = new Set<string>(PRESERVED_FIELDS);
+
+const INTEGER = /^-?\d+$/;
+
+/**
+ * Convert every amount field of a parsed response to bigint.
+ * Amounts that are not integers throw ZeroExSchemaError.
+ */
+export function toBigIntAmounts<T>(
+  value: T,
+  response: { url: string; status: number },
+): BigIntAmounts<T> {
+  const issues: z.core.$ZodIssue[] = [];
+  const converted = convert(value, [], issues);
+  if (issues.length > 0) {
+    const described = issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join(", ");
+    throw new ZeroExSchemaError(
+      `Invalid amounts in response from ${new URL(response.url).pathname}: ${described}`,
+      { ...response, issues },
+    );
+  }
+  return converted as BigIntAmounts<T>;
+}
+
+function convert(
+  value: unknown,
+  path: PropertyKey[],
+  issues: z.core.$ZodIssue[],
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => convert(item, [...path, index], issues));
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => {
+      if (preservedFields.has(key)) {
+        return [key, field];
+      }
+      if (amountFields.has(key) && typeof field === "string") {
+        if (!INTEGER.test(field)) {
+          issues.push({
+            code: "custom",
+            path: [...path, key],
+            message: `Expected an integer amount, got "${field}"`,
+            input: field,
+          });
+          return [key, field];
+        }
+        return [key, BigInt(field)];
+      }
+      return [key, convert(field, [...path, key], issues)];
+    }),
+  );
+}
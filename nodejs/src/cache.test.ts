@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { getCacheKey, MemoryCacheStore } from "./cache";
+import { CrossChainClient } from "./crossChainClient";
+import { ZeroExTimeoutError } from "./errors";
+
+describe("MemoryCacheStore", () => {
+  it("evicts the oldest entries beyond maxEntries", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", 1, null);
+    store.set("b", 2, null);
+    store.set("c", 3, null);
+
+    assert.equal(store.size, 2);
+    assert.equal(store.get("a"), undefined);
+    assert.equal(store.get("b"), 2);
+    assert.equal(store.get("c"), 3);
+  });
+
+  it("treats an overwritten entry as the newest", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", 1, null);
+    store.set("b", 2, null);
+    store.set("a", 10, null);
+    store.set("c", 3, null);
+
+    assert.equal(store.get("a"), 10);
+    assert.equal(store.get("b"), undefined);
+  });
+
+  it("expires entries after their TTL and keeps null TTLs", async () => {
+    const store = new MemoryCacheStore();
+    store.set("short", 1, 5);
+    store.set("forever", 2, null);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.equal(store.get("short"), undefined);
+    assert.equal(store.get("forever"), 2);
+    assert.equal(store.size, 1);
+  });
+});
+
+describe("getCacheKey", () => {
+  it("ignores parameter order and undefined parameters", () => {
+    assert.equal(
+      getCacheKey("getStatus", { a: 1, b: "x", c: undefined }),
+      getCacheKey("getStatus", { b: "x", a: 1 }),
+    );
+    assert.notEqual(
+      getCacheKey("getStatus", { a: 1 }),
+      getCacheKey("getQuotes", { a: 1 }),
+    );
+  });
+});
+
+describe("client cache against a stub server", () => {
+  // Local 0x API stub answering every request after `delayMs`
+  const server = createServer(
+    (_request: IncomingMessage, response: ServerResponse) => {
+      requests++;
+      setTimeout(() => {
+        response.writeHead(200, { "content-type": "application/json" });
+        response.end(
+          JSON.stringify({
+            status: "bridge_pending",
+            steps: [],
+            failure: null,
+            transactions: [],
+            zid: "0x0000",
+          }),
+        );
+      }, delayMs);
+    },
+  );
+  let requests = 0;
+  let delayMs = 0;
+  let baseUrl = "";
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = 0;
+    delayMs = 0;
+  });
+
+  function createClient() {
+    return new CrossChainClient("test-key", { baseUrl, cache: true });
+  }
+
+  const REQUEST = { originChain: "base", originTxHash: "0x1" };
+
+  it("shares one request between identical concurrent calls", async () => {
+    const client = createClient();
+
+    const [first, second] = await Promise.all([
+      client.getStatus(REQUEST),
+      client.getStatus({ originTxHash: "0x1", originChain: "base" }),
+    ]);
+
+    assert.deepEqual(first, second);
+    assert.equal(requests, 1);
+
+    await client.getStatus(REQUEST);
+    assert.equal(requests, 1);
+  });
+
+  it("bypasses the cache with cache: false", async () => {
+    const client = createClient();
+
+    await client.getStatus(REQUEST);
+    await client.getStatus(REQUEST, { cache: false });
+
+    assert.equal(requests, 2);
+  });
+
+  it("times out only the caller with the short timeout", async () => {
+    const client = createClient();
+    delayMs = 100;
+
+    const [impatient, patient] = await Promise.allSettled([
+      client.getStatus(REQUEST, { timeoutMs: 10, retry: false }),
+      client.getStatus(REQUEST, { timeoutMs: 5_000 }),
+    ]);
+
+    assert.equal(impatient.status, "rejected");
+    assert.ok(impatient.reason instanceof ZeroExTimeoutError);
+    assert.equal(patient.status, "fulfilled");
+    assert.equal(requests, 1);
+  });
+
+  it("keeps the shared request running when one caller aborts", async () => {
+    const client = createClient();
+    const controller = new AbortController();
+    delayMs = 50;
+
+    const aborted = client.getStatus(REQUEST, { signal: controller.signal });
+    const other = client.getStatus(REQUEST);
+    controller.abort();
+
+    await assert.rejects(aborted, { name: "ZeroExAbortError" });
+    assert.equal((await other).status, "bridge_pending");
+    assert.equal(requests, 1);
+  });
+});
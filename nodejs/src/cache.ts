@@ -0,0 +1,86 @@
+/**
+ * Storage behind the client cache. Implement it to share responses through Redis, a database, ...
+ * Values are plain JSON API responses.
+ */
+export interface CacheStore {
+  /** Cached value, or `undefined` when missing or expired */
+  get(key: string): unknown | Promise<unknown>;
+  /** Store a value for `ttlMs` milliseconds, or indefinitely when `ttlMs` is `null` */
+  set(key: string, value: unknown, ttlMs: number | null): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  store: CacheStore;
+  /** How long quotes stay cached */
+  quoteTtlMs: number;
+  /** How long in-progress statuses stay cached; settled statuses never expire */
+  statusTtlMs: number;
+}
+
+export const DEFAULT_CACHE_OPTIONS: Omit<CacheOptions, "store"> = {
+  quoteTtlMs: 5_000,
+  statusTtlMs: 2_000,
+};
+
+/**
+ * In-memory CacheStore, evicting the oldest entries beyond `maxEntries`
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<
+    string,
+    { value: unknown; expiresAt: number | null }
+  >();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 1_000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: unknown, ttlMs: number | null): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs === null ? null : Date.now() + ttlMs,
+    });
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Cache key that does not depend on the order request parameters were given in
+ */
+export function getCacheKey(
+  operation: string,
+  parameters: Record<string, unknown>,
+): string {
+  const sorted = Object.keys(parameters)
+    .filter((key) => parameters[key] !== undefined)
+    .sort()
+    .map((key) => [key, parameters[key]]);
+  return `${operation}:${JSON.stringify(sorted)}`;
+}
@@ -0,0 +1,507 @@
+import { Connection, Keypair, VersionedTransaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import { TronWeb, utils as tronUtils } from "tronweb";
+import {
+  createWalletClient,
+  erc20Abi,
+  publicActions,
+  type Hex,
+  type PublicActions,
+  type WalletClient,
+} from "viem";
+import { privateKeyToAccount, privateKeyToAddress } from "viem/accounts";
+import { z } from "zod";
+import {
+  ChainAddress,
+  ChainFamily,
+  toEvmAddress,
+  toSolanaAddress,
+  toTronAddress,
+  tronHexToBase58,
+} from "./addresses";
+import {
+  ChainInfo,
+  ChainRef,
+  getExplorerTxUrl,
+  getRpcUrl,
+  requireChain,
+} from "./chains";
+import { Config } from "./config";
+import {
+  createEvmTransport,
+  createFailoverFetch,
+  createSolanaConnection,
+  RpcFetch,
+} from "./rpc";
+import { Transaction } from "./schemas";
+
+const TRON_FEE_LIMIT = 150_000_000; // 150 TRX in sun
+const TRON_POLL_INTERVAL_MS = 3_000;
+const TRON_POLL_MAX_ATTEMPTS = 40;
+
+// Tron HTTP API responses, keeping unknown fields for signing
+const TronTriggerResponseSchema = z.looseObject({
+  transaction: z.looseObject({ txID: z.string() }).optional(),
+});
+
+const TronBroadcastResponseSchema = z.looseObject({
+  result: z.boolean().optional(),
+  txid: z.string().optional(),
+});
+
+// Empty (`{}`) until the transaction is in a confirmed block
+const TronTransactionInfoSchema = z.looseObject({
+  id: z.string().optional(),
+  blockNumber: z.number().optional(),
+  receipt: z.looseObject({ result: z.string().optional() }).optional(),
+});
+
+export interface TransactionConfirmation {
+  /** Block the transaction was included in; the slot on Solana */
+  block: bigint;
+}
+
+/**
+ * Accounts a swap is quoted for
+ */
+export interface ChainIdentity {
+  /** Address derived from the private key; the quote's `originAddress` */
+  readonly address: ChainAddress;
+  /** Separate account paying the network fees, passed as the quote's `gasPayer` */
+  readonly gasPayer: ChainAddress | null;
+}
+
+/**
+ * Signs and broadcasts quote transactions on one chain family.
+ * Adapters hold a private key; without one the examples run in quote-only mode.
+ */
+export interface ChainAdapter extends ChainIdentity {
+  readonly chain: ChainInfo;
+  readonly family: ChainFamily;
+  /**
+   * Let `spender` transfer `amount` of `token` and wait for the approval.
+   * Returns the approval hash, or `null` if the chain needs no approvals.
+   */
+  approve(
+    token: string,
+    spender: string,
+    amount: bigint,
+  ): Promise<string | null>;
+  /** Lines describing a quote transaction, shown before it is signed */
+  describeTransaction(transaction: Transaction): string[];
+  /** Build, sign and broadcast a quote transaction; returns its hash */
+  sendTransaction(transaction: Transaction): Promise<string>;
+  /** Wait until the transaction is final; throws if it failed on-chain */
+  waitForConfirmation(hash: string): Promise<TransactionConfirmation>;
+  /** Hash in the format the status API expects */
+  toStatusTxHash(hash: string): string;
+  getExplorerTxUrl(hash: string): string;
+}
+
+// Narrow a quote transaction to the adapter's chain type
+function expectTransaction<T extends Transaction["chainType"]>(
+  transaction: Transaction,
+  chainType: T,
+): Extract<Transaction, { chainType: T }> {
+  if (transaction.chainType !== chainType) {
+    throw new Error(
+      `Expected a ${chainType} transaction, got ${transaction.chainType}`,
+    );
+  }
+  return transaction as Extract<Transaction, { chainType: T }>;
+}
+
+export class EvmChainAdapter implements ChainAdapter {
+  readonly chain: ChainInfo;
+  readonly family = "evm" as const;
+  readonly address: ChainAddress;
+  readonly gasPayer = null;
+  private readonly client: WalletClient & PublicActions;
+
+  constructor(chain: ChainRef | ChainInfo, privateKey: string) {
+    this.chain = requireChain(chain);
+    const account = privateKeyToAccount(
+      (privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex,
+    );
+    this.address = toEvmAddress(account.address);
+    this.client = createWalletClient({
+      account,
+      chain: this.chain.viemChain ?? undefined,
+      transport: createEvmTransport(this.chain),
+    }).extend(publicActions);
+  }
+
+  async approve(
+    token: string,
+    spender: string,
+    amount: bigint,
+  ): Promise<string> {
+    const hash = await this.client.writeContract({
+      address: token as Hex,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [spender as Hex, amount],
+      account: this.client.account!,
+      chain: this.client.chain,
+    });
+    await this.client.waitForTransactionReceipt({ hash, confirmations: 1 });
+    return hash;
+  }
+
+  describeTransaction(transaction: Transaction): string[] {
+    const { details } = expectTransaction(transaction, "evm");
+    return [
+      `📍 To: ${details.to}`,
+      `💎 Value: ${details.value} wei`,
+      `⛽ Gas: ${details.gas ?? "estimated"}`,
+    ];
+  }
+
+  async sendTransaction(transaction: Transaction): Promise<string> {
+    const { details } = expectTransaction(transaction, "evm");
+    // Sent as is - the API already simulated it
+    return this.client.sendTransaction({
+      to: details.to as Hex,
+      data: details.data as Hex,
+      value: BigInt(details.value),
+      gas: details.gas ? BigInt(details.gas) : undefined,
+      account: this.client.account!,
+      chain: this.client.chain,
+    });
+  }
+
+  async waitForConfirmation(hash: string): Promise<TransactionConfirmation> {
+    const receipt = await this.client.waitForTransactionReceipt({
+      hash: hash as Hex,
+      confirmations: 2,
+    });
+    if (receipt.status === "reverted") {
+      throw new Error(`Transaction reverted in block ${receipt.blockNumber}`);
+    }
+    return { block: receipt.blockNumber };
+  }
+
+  toStatusTxHash(hash: string): string {
+    return hash;
+  }
+
+  getExplorerTxUrl(hash: string): string {
+    return getExplorerTxUrl(this.chain, hash);
+  }
+}
+
+export class SvmChainAdapter implements ChainAdapter {
+  readonly chain: ChainInfo;
+  readonly family = "svm" as const;
+  readonly address: ChainAddress;
+  readonly gasPayer: ChainAddress | null;
+  private readonly keypair: Keypair;
+  private readonly gasPayerKeypair: Keypair | null;
+  private readonly connection: Connection;
+
+  /**
+   * @param gasPayerPrivateKey Pays the network fees and signs first, as fee payer
+   */
+  constructor(
+    chain: ChainRef | ChainInfo,
+    privateKey: string,
+    gasPayerPrivateKey?: string,
+  ) {
+    this.chain = requireChain(chain);
+    this.keypair = Keypair.fromSecretKey(bs58.decode(privateKey));
+    this.address = toSolanaAddress(this.keypair.publicKey.toBase58());
+    this.gasPayerKeypair = gasPayerPrivateKey
+      ? Keypair.fromSecretKey(bs58.decode(gasPayerPrivateKey))
+      : null;
+    if (this.gasPayerKeypair?.publicKey.equals(this.keypair.publicKey)) {
+      throw new Error(
+        "The gas payer must be different from the transaction signer",
+      );
+    }
+    this.gasPayer = this.gasPayerKeypair
+      ? toSolanaAddress(this.gasPayerKeypair.publicKey.toBase58())
+      : null;
+    this.connection = createSolanaConnection(this.chain);
+  }
+
+  // The token owner signs the swap transaction itself, no delegate is approved
+  async approve(): Promise<null> {
+    return null;
+  }
+
+  describeTransaction(transaction: Transaction): string[] {
+    const { message } = this.deserialize(transaction);
+    return [
+      `📝 Instructions: ${message.compiledInstructions.length}`,
+      `🔑 Required signatures: ${message.header.numRequiredSignatures}`,
+    ];
+  }
+
+  async sendTransaction(transaction: Transaction): Promise<string> {
+    const versioned = this.deserialize(transaction);
+    versioned.sign(
+      this.gasPayerKeypair
+        ? [this.gasPayerKeypair, this.keypair]
+        : [this.keypair],
+    );
+    return this.connection.sendTransaction(versioned, {
+      skipPreflight: false, // Let Solana do final preflight
+      preflightCommitment: "confirmed",
+    });
+  }
+
+  async waitForConfirmation(hash: string): Promise<TransactionConfirmation> {
+    const confirmation = await this.connection.confirmTransaction(
+      {
+        signature: hash,
+        ...(await this.connection.getLatestBlockhash()),
+      },
+      "finalized",
+    );
+    if (confirmation.value.err) {
+      throw new Error(
+        `Transaction failed: ${JSON.stringify(confirmation.value.err)}`,
+      );
+    }
+    return { block: BigInt(confirmation.context.slot) };
+  }
+
+  toStatusTxHash(hash: string): string {
+    return hash;
+  }
+
+  getExplorerTxUrl(hash: string): string {
+    return getExplorerTxUrl(this.chain, hash);
+  }
+
+  private deserialize(transaction: Transaction): VersionedTransaction {
+    const { details } = expectTransaction(transaction, "svm");
+    return VersionedTransaction.deserialize(
+      Buffer.from(details.serializedTransaction, "base64"),
+    );
+  }
+}
+
+export class TvmChainAdapter implements ChainAdapter {
+  readonly chain: ChainInfo;
+  readonly family = "tvm" as const;
+  readonly address: ChainAddress;
+  readonly gasPayer = null;
+  private readonly privateKey: string;
+  private readonly tronWeb: InstanceType<typeof TronWeb>;
+  private readonly rpcFetch: RpcFetch;
+
+  constructor(chain: ChainRef | ChainInfo, privateKey: string) {
+    this.chain = requireChain(chain);
+    this.privateKey = privateKey.replace(/^0x/, "");
+    // Only used offline (address conversion); node requests go through rpcFetch
+    this.tronWeb = new TronWeb({
+      fullHost: getRpcUrl(this.chain),
+      privateKey: this.privateKey,
+    });
+    this.address = toTronAddress(this.tronWeb.defaultAddress.base58 as string);
+    // Fails over between the configured Tron endpoints
+    this.rpcFetch = createFailoverFetch(this.chain);
+  }
+
+  // The integrated bridge providers use direct TRC-20 transfers rather than
+  // contract-based spending, so no separate approve() step is required
+  async approve(): Promise<null> {
+    return null;
+  }
+
+  describeTransaction(transaction: Transaction): string[] {
+    const { details } = expectTransaction(transaction, "tvm");
+    return [
+      `📍 To: ${details.to}`,
+      `💎 Value: ${details.value} sun`,
+      `⛽ Fee limit: ${TRON_FEE_LIMIT} sun`,
+    ];
+  }
+
+  async sendTransaction(transaction: Transaction): Promise<string> {
+    const { details } = expectTransaction(transaction, "tvm");
+
+    // Build unsigned tx via the Tron HTTP API directly (same approach as the Rust CLI).
+    // TronWeb's triggerSmartContract + manual data override can fail validation in v6.
+    const callValue = Number(details.value || "0");
+    if (callValue > Number.MAX_SAFE_INTEGER) {
+      throw new Error(
+        "call_value exceeds safe integer range — use the Tron API string format for high-value transactions",
+      );
+    }
+
+    const triggerResult = await this.post(
+      "/wallet/triggersmartcontract",
+      {
+        owner_address: this.tronWeb.address.toHex(details.ownerAddress),
+        contract_address: this.tronWeb.address.toHex(details.to),
+        function_selector: "",
+        parameter: "",
+        data: details.data.replace(/^0x/, ""),
+        call_value: callValue,
+        fee_limit: TRON_FEE_LIMIT,
+      },
+      TronTriggerResponseSchema,
+    );
+    if (!triggerResult.transaction) {
+      throw new Error(
+        `Failed to build Tron transaction: ${JSON.stringify(triggerResult)}`,
+      );
+    }
+
+    // Signed locally, so only the broadcast needs a node
+    const signedTx = tronUtils.crypto.signTransaction(
+      this.privateKey,
+      triggerResult.transaction,
+    );
+    const broadcastResult = await this.post(
+      "/wallet/broadcasttransaction",
+      signedTx,
+      TronBroadcastResponseSchema,
+    );
+    if (!broadcastResult.result) {
+      throw new Error(`Broadcast failed: ${JSON.stringify(broadcastResult)}`);
+    }
+    return broadcastResult.txid ?? signedTx.txID;
+  }
+
+  async waitForConfirmation(hash: string): Promise<TransactionConfirmation> {
+    for (let i = 0; i < TRON_POLL_MAX_ATTEMPTS; i++) {
+      await new Promise((r) => setTimeout(r, TRON_POLL_INTERVAL_MS));
+
+      // The solidity API only reports transactions in confirmed blocks
+      const info = await this.post(
+        "/walletsolidity/gettransactioninfobyid",
+        { value: hash },
+        TronTransactionInfoSchema,
+      );
+      if (info.id && info.blockNumber !== undefined && info.receipt?.result) {
+        if (info.receipt.result !== "SUCCESS") {
+          throw new Error(`Tron transaction failed: ${info.receipt.result}`);
+        }
+        return { block: BigInt(info.blockNumber) };
+      }
+    }
+    throw new Error("Tron transaction not confirmed within timeout");
+  }
+
+  // Tron tx hashes need 0x prefix for the status API
+  toStatusTxHash(hash: string): string {
+    return `0x${hash}`;
+  }
+
+  getExplorerTxUrl(hash: string): string {
+    return getExplorerTxUrl(this.chain, hash);
+  }
+
+  // POST to the Tron HTTP API, failing over between endpoints
+  private async post<T extends z.ZodType>(
+    path: string,
+    body: unknown,
+    schema: T,
+  ): Promise<z.output<T>> {
+    const response = await this.rpcFetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Tron API error: ${response.status} ${response.statusText}\n${errorText}`,
+      );
+    }
+    const json: unknown = await response.json();
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      throw new Error(
+        `Unexpected Tron API response from ${path}: ${JSON.stringify(json)}`,
+      );
+    }
+    return result.data;
+  }
+}
+
+/**
+ * Adapter for `chain` using the configured key of its family, or `null` when
+ * no key is configured (quote-only mode)
+ */
+export function createChainAdapter(
+  chain: ChainRef | ChainInfo,
+  config: Config,
+  options: {
+    /** Sign Solana transactions with `solanaGasPayerPrivateKey` as fee payer */
+    gasPayer?: boolean;
+  } = {},
+): ChainAdapter | null {
+  const info = requireChain(chain);
+  switch (info.family) {
+    case "evm":
+      return config.evmPrivateKey
+        ? new EvmChainAdapter(info, config.evmPrivateKey)
+        : null;
+    case "svm":
+      return config.solanaPrivateKey
+        ? new SvmChainAdapter(
+            info,
+            config.solanaPrivateKey,
+            options.gasPayer ? config.solanaGasPayerPrivateKey : undefined,
+          )
+        : null;
+    case "tvm":
+      return config.tronPrivateKey
+        ? new TvmChainAdapter(info, config.tronPrivateKey)
+        : null;
+  }
+}
+
+/**
+ * Addresses of the keys already in `config` for `chain`, without creating a
+ * signer or unlocking key files; `null` when the key is not loaded
+ */
+export function getChainIdentity(
+  chain: ChainRef | ChainInfo,
+  config: Config,
+  options: { gasPayer?: boolean } = {},
+): ChainIdentity | null {
+  const info = requireChain(chain);
+  switch (info.family) {
+    case "evm":
+      return config.evmPrivateKey
+        ? { address: deriveEvmAddress(config.evmPrivateKey), gasPayer: null }
+        : null;
+    case "svm":
+      return config.solanaPrivateKey
+        ? {
+            address: deriveSolanaAddress(config.solanaPrivateKey),
+            gasPayer:
+              options.gasPayer && config.solanaGasPayerPrivateKey
+                ? deriveSolanaAddress(config.solanaGasPayerPrivateKey)
+                : null,
+          }
+        : null;
+    case "tvm":
+      // Tron accounts share the secp256k1 key derivation of EVM accounts
+      return config.tronPrivateKey
+        ? {
+            address: tronHexToBase58(deriveEvmAddress(config.tronPrivateKey)),
+            gasPayer: null,
+          }
+        : null;
+  }
+}
+
+function deriveEvmAddress(privateKey: string): ChainAddress {
+  return toEvmAddress(
+    privateKeyToAddress(
+      (privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex,
+    ),
+  );
+}
+
+function deriveSolanaAddress(secretKey: string): ChainAddress {
+  return toSolanaAddress(
+    Keypair.fromSecretKey(bs58.decode(secretKey)).publicKey.toBase58(),
+  );
+}
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  CHAINS,
+  defineChain,
+  getChain,
+  getExplorerTxUrl,
+  getRpcUrls,
+  registerChain,
+  requireChain,
+  setRpcUrls,
+} from "./chains";
+
+const TESTNET = defineChain({
+  name: "testnet",
+  displayName: "Test Network",
+  quoteId: 424242,
+  statusId: 424242,
+  family: "evm",
+  nativeToken: { symbol: "TEST", decimals: 18 },
+  defaultRpcUrl: "https://rpc.testnet.example",
+  explorer: {
+    name: "TestScan",
+    txUrl: "https://scan.testnet.example/tx/{hash}",
+    addressUrl: "https://scan.testnet.example/address/{address}",
+  },
+  viemChain: null,
+});
+
+describe("chain registry", () => {
+  it("looks chains up by name, quote ID or status ID", () => {
+    assert.equal(getChain("Solana"), CHAINS.solana);
+    assert.equal(getChain(CHAINS.solana.quoteId), CHAINS.solana);
+    assert.equal(getChain(CHAINS.solana.statusId), CHAINS.solana);
+    assert.equal(getChain(8453), CHAINS.base);
+    assert.equal(getChain("unknown-chain"), null);
+    assert.throws(() => requireChain("unknown-chain"), /Unknown chain/);
+  });
+
+  it("registers new chains and replaces existing ones", () => {
+    registerChain(TESTNET);
+    assert.equal(getChain("testnet"), TESTNET);
+    assert.equal(getChain(424242), TESTNET);
+
+    const renamed = { ...TESTNET, displayName: "Renamed" };
+    registerChain(renamed);
+    assert.equal(getChain("TESTNET"), renamed);
+  });
+
+  it("builds explorer links without the 0x prefix outside EVM", () => {
+    assert.equal(
+      getExplorerTxUrl(CHAINS.tron, "0xabc"),
+      "https://tronscan.org/#/transaction/abc",
+    );
+    assert.equal(
+      getExplorerTxUrl(CHAINS.base, "0xabc"),
+      "https://basescan.org/tx/0xabc",
+    );
+    assert.equal(getExplorerTxUrl(424243, "0xabc"), null);
+  });
+});
+
+describe("getRpcUrls", () => {
+  afterEach(() => {
+    setRpcUrls("base", []);
+  });
+
+  it("falls back to the chain default", () => {
+    assert.deepEqual(getRpcUrls("base", {}), ["https://mainnet.base.org"]);
+  });
+
+  it("prefers RPC_URL_<chainId> over <NAME>_RPC_URL", () => {
+    const env = {
+      BASE_RPC_URL: "https://named.example",
+      RPC_URL_8453: "https://by-id.example, https://fallback.example",
+    };
+
+    assert.deepEqual(getRpcUrls("base", env), [
+      "https://by-id.example",
+      "https://fallback.example",
+    ]);
+    assert.deepEqual(getRpcUrls("base", { BASE_RPC_URL: env.BASE_RPC_URL }), [
+      "https://named.example",
+    ]);
+  });
+
+  it("prefers setRpcUrls over the environment", () => {
+    setRpcUrls("base", ["https://profile.example"]);
+
+    assert.deepEqual(
+      getRpcUrls("base", { RPC_URL_8453: "https://by-id.example" }),
+      ["https://profile.example"],
+    );
+
+    setRpcUrls("base", []);
+    assert.deepEqual(
+      getRpcUrls("base", { RPC_URL_8453: "https://by-id.example" }),
+      ["https://by-id.example"],
+    );
+  });
+
+  it("needs RPC_URL_<chainId> for unregistered chains", () => {
+    assert.deepEqual(getRpcUrls(777, { RPC_URL_777: "https://777.example" }), [
+      "https://777.example",
+    ]);
+    assert.throws(() => getRpcUrls(777, {}), /Set RPC_URL_777/);
+  });
+
+  it("rejects values that are not URLs", () => {
+    assert.throws(
+      () => getRpcUrls("base", { BASE_RPC_URL: "not a url" }),
+      /Invalid BASE_RPC_URL/,
+    );
+    assert.throws(() => setRpcUrls("base", ["nope"]), /Invalid RPC URL/);
+  });
+});
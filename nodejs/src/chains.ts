@@ -0,0 +1,320 @@
+import { z } from "zod";
+import type { Chain } from "viem";
+import { arbitrum, base, mainnet, optimism, polygon } from "viem/chains";
+import type { ChainFamily } from "./addresses";
+
+export interface ChainInfo<
+  QuoteId extends string | number = string | number,
+  ViemChain extends Chain | null = Chain | null,
+> {
+  /** Registry key, e.g. "base" */
+  name: string;
+  displayName: string;
+  /** `originChain` / `destinationChain` value for the quotes API */
+  quoteId: QuoteId;
+  /** Numeric ID used by the status API and in status responses */
+  statusId: number;
+  family: ChainFamily;
+  nativeToken: { symbol: string; decimals: number };
+  /** Used unless `RPC_URL_<statusId>` or `<NAME>_RPC_URL` is set, e.g. `BASE_RPC_URL` */
+  defaultRpcUrl: string;
+  /** URL templates with `{hash}` / `{address}` placeholders */
+  explorer: { name: string; txUrl: string; addressUrl: string };
+  /** viem chain for EVM chains, `null` otherwise */
+  viemChain: ViemChain;
+}
+
+/** Any identifier of a chain: registry name, quote API ID or status API ID */
+export type ChainRef = string | number;
+
+/**
+ * Keeps the literal `quoteId` and viem chain types, so requests built from
+ * `CHAINS.tron.quoteId` are type-checked against Tron addresses
+ */
+export function defineChain<
+  const QuoteId extends string | number,
+  ViemChain extends Chain | null,
+>(info: ChainInfo<QuoteId, ViemChain>): ChainInfo<QuoteId, ViemChain> {
+  return info;
+}
+
+function evmChain<const QuoteId extends number, ViemChain extends Chain>(
+  name: string,
+  quoteId: QuoteId,
+  viemChain: ViemChain,
+  defaultRpcUrl: string,
+  explorerName: string,
+  explorerUrl: string,
+): ChainInfo<QuoteId, ViemChain> {
+  return defineChain({
+    name,
+    displayName: viemChain.name,
+    quoteId,
+    statusId: quoteId,
+    family: "evm",
+    nativeToken: {
+      symbol: viemChain.nativeCurrency.symbol,
+      decimals: viemChain.nativeCurrency.decimals,
+    },
+    defaultRpcUrl,
+    explorer: {
+      name: explorerName,
+      txUrl: `${explorerUrl}/tx/{hash}`,
+      addressUrl: `${explorerUrl}/address/{address}`,
+    },
+    viemChain,
+  });
+}
+
+/**
+ * Chains known out of the box; `registerChain` adds more at runtime
+ */
+export const CHAINS = {
+  ethereum: evmChain(
+    "ethereum",
+    1,
+    mainnet,
+    "https://eth.llamarpc.com",
+    "Etherscan",
+    "https://etherscan.io",
+  ),
+  optimism: evmChain(
+    "optimism",
+    10,
+    optimism,
+    "https://mainnet.optimism.io",
+    "Optimistic Etherscan",
+    "https://optimistic.etherscan.io",
+  ),
+  polygon: evmChain(
+    "polygon",
+    137,
+    polygon,
+    "https://polygon-rpc.com",
+    "PolygonScan",
+    "https://polygonscan.com",
+  ),
+  base: evmChain(
+    "base",
+    8453,
+    base,
+    "https://mainnet.base.org",
+    "BaseScan",
+    "https://basescan.org",
+  ),
+  arbitrum: evmChain(
+    "arbitrum",
+    42161,
+    arbitrum,
+    "https://arb1.arbitrum.io/rpc",
+    "Arbiscan",
+    "https://arbiscan.io",
+  ),
+  // The quotes API takes names for non-EVM chains, the status API numeric IDs
+  solana: defineChain({
+    name: "solana",
+    displayName: "Solana",
+    quoteId: "solana",
+    statusId: 999999999991,
+    family: "svm",
+    nativeToken: { symbol: "SOL", decimals: 9 },
+    defaultRpcUrl: "https://api.mainnet-beta.solana.com",
+    explorer: {
+      name: "Solscan",
+      txUrl: "https://solscan.io/tx/{hash}",
+      addressUrl: "https://solscan.io/account/{address}",
+    },
+    viemChain: null,
+  }),
+  tron: defineChain({
+    name: "tron",
+    displayName: "Tron",
+    quoteId: "tron",
+    statusId: 999999999993,
+    family: "tvm",
+    nativeToken: { symbol: "TRX", decimals: 6 },
+    defaultRpcUrl: "https://api.trongrid.io",
+    explorer: {
+      name: "Tronscan",
+      txUrl: "https://tronscan.org/#/transaction/{hash}",
+      addressUrl: "https://tronscan.org/#/address/{address}",
+    },
+    viemChain: null,
+  }),
+};
+
+const registry = new Map<string, ChainInfo>(
+  Object.values(CHAINS).map((chain) => [chain.name, chain]),
+);
+
+/**
+ * Add a chain, or replace the registered chain with the same name
+ */
+export function registerChain(chain: ChainInfo): void {
+  registry.set(chain.name.toLowerCase(), chain);
+}
+
+export function listChains(): ChainInfo[] {
+  return [...registry.values()];
+}
+
+/**
+ * Look up a chain by name, quote API ID or status API ID (e.g. "solana", 999999999991),
+ * or `null` if it is not registered
+ */
+export function getChain(chain: ChainRef | ChainInfo): ChainInfo | null {
+  if (typeof chain === "object") {
+    return chain;
+  }
+  const key = String(chain).toLowerCase();
+  return (
+    registry.get(key) ??
+    listChains().find(
+      (info) => String(info.quoteId) === key || String(info.statusId) === key,
+    ) ??
+    null
+  );
+}
+
+/**
+ * Like `getChain`, but throws for unregistered chains
+ */
+export function requireChain(chain: ChainRef | ChainInfo): ChainInfo {
+  const info = getChain(chain);
+  if (!info) {
+    throw new Error(
+      `Unknown chain: ${chain}. Register it with registerChain() first`,
+    );
+  }
+  return info;
+}
+
+/**
+ * Explorer link for a transaction, or `null` if the chain is not registered
+ */
+export function getExplorerTxUrl(chain: ChainInfo, hash: string): string;
+export function getExplorerTxUrl(
+  chain: ChainRef | ChainInfo,
+  hash: string,
+): string | null;
+export function getExplorerTxUrl(
+  chain: ChainRef | ChainInfo,
+  hash: string,
+): string | null {
+  const info = getChain(chain);
+  // Status responses report Tron hashes 0x-prefixed, which Tronscan does not accept
+  const value = info?.family === "evm" ? hash : hash.replace(/^0x/, "");
+  return info ? info.explorer.txUrl.replace("{hash}", value) : null;
+}
+
+/**
+ * Explorer link for an account or token, or `null` if the chain is not registered
+ */
+export function getExplorerAddressUrl(
+  chain: ChainInfo,
+  address: string,
+): string;
+export function getExplorerAddressUrl(
+  chain: ChainRef | ChainInfo,
+  address: string,
+): string | null;
+export function getExplorerAddressUrl(
+  chain: ChainRef | ChainInfo,
+  address: string,
+): string | null {
+  const info = getChain(chain);
+  return info ? info.explorer.addressUrl.replace("{address}", address) : null;
+}
+
+/** Environment variable overriding a chain's RPC URL, e.g. `BASE_RPC_URL` */
+export function getRpcEnvVar(chain: ChainRef | ChainInfo): string {
+  return `${requireChain(chain).name.toUpperCase().replace(/\W/g, "_")}_RPC_URL`;
+}
+
+/**
+ * Environment variable with a chain's RPC URLs by status API ID, e.g. `RPC_URL_8453`
+ * or `RPC_URL_999999999991` for Solana. Works for chains missing from the registry.
+ */
+export function getRpcChainIdEnvVar(chain: ChainRef | ChainInfo): string {
+  const info = getChain(chain);
+  return `RPC_URL_${info ? info.statusId : chain}`;
+}
+
+const rpcUrlOverrides = new Map<string, string[]>();
+
+/**
+ * Use `urls` for a chain instead of its environment variables and default, e.g.
+ * the RPC URLs of a config profile. An empty list removes the override.
+ */
+export function setRpcUrls(chain: ChainRef | ChainInfo, urls: string[]): void {
+  const { name } = requireChain(chain);
+  for (const url of urls) {
+    if (!z.string().url().safeParse(url).success) {
+      throw new Error(`Invalid RPC URL for ${name}: ${url} is not a URL`);
+    }
+  }
+  if (urls.length) {
+    rpcUrlOverrides.set(name, [...urls]);
+  } else {
+    rpcUrlOverrides.delete(name);
+  }
+}
+
+// Comma-separated list of URLs in order of preference
+function parseRpcUrlList(variable: string, value: string): string[] {
+  const urls = value
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  for (const url of urls) {
+    if (!z.string().url().safeParse(url).success) {
+      throw new Error(`Invalid ${variable}: ${url} is not a URL`);
+    }
+  }
+  return urls;
+}
+
+/**
+ * RPC URLs in order of preference, from the first of: `setRpcUrls`,
+ * `RPC_URL_<chainId>`, `<NAME>_RPC_URL` (both comma-separated lists), the
+ * chain's default. Unregistered chains need `RPC_URL_<chainId>`.
+ */
+export function getRpcUrls(
+  chain: ChainRef | ChainInfo,
+  env: NodeJS.ProcessEnv = process.env,
+): string[] {
+  const info = getChain(chain);
+  const overrides = info && rpcUrlOverrides.get(info.name);
+  if (overrides) {
+    return [...overrides];
+  }
+
+  const variables = [getRpcChainIdEnvVar(chain)];
+  if (info) {
+    variables.push(getRpcEnvVar(info));
+  }
+  for (const variable of variables) {
+    const value = env[variable];
+    const urls = value ? parseRpcUrlList(variable, value) : [];
+    if (urls.length) {
+      return urls;
+    }
+  }
+
+  if (!info) {
+    throw new Error(
+      `Unknown chain: ${chain}. Set ${getRpcChainIdEnvVar(chain)} or register it with registerChain() first`,
+    );
+  }
+  return [info.defaultRpcUrl];
+}
+
+/**
+ * Preferred RPC URL of a chain (see `getRpcUrls`)
+ */
+export function getRpcUrl(
+  chain: ChainRef | ChainInfo,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return getRpcUrls(chain, env)[0];
+}
@@ -0,0 +1,484 @@
+import { config as dotenv } from "dotenv";
+import { createInterface } from "readline/promises";
+import { parseArgs } from "util";
+import { CHAIN_FAMILY_NAMES, isAddressForFamily } from "./addresses";
+import { ChainIdentity, getChainIdentity } from "./chainAdapters";
+import {
+  ChainInfo,
+  getChain,
+  getExplorerTxUrl,
+  listChains,
+} from "./chains";
+import { Config, loadConfig, unlockKeys } from "./config";
+import { CrossChainClient } from "./crossChainClient";
+import {
+  buildQuotesRequest,
+  executeCrossChainSwap,
+  logSwapError,
+  monitorCrossChainTransaction,
+  SwapLogger,
+} from "./crossChainSwap";
+import {
+  compareQuotes,
+  renderQuoteCsv,
+  renderQuoteTable,
+  toQuoteJson,
+} from "./quoteComparison";
+import { CrossChainStatusRequest, CrossChainStatusResponse } from "./schemas";
+import { TokenAmount } from "./tokenAmount";
+import { TokenInfo, TokenRegistry, toTokenAmount } from "./tokens";
+
+dotenv({ quiet: true });
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  quote                 Compare up to 10 quotes for a swap side by side
+  swap                  Quote, confirm and execute a swap, then monitor it
+  status <chain> <tx>   Print the status of a cross-chain transaction
+  monitor <chain> <tx>  Watch a cross-chain transaction until it settles
+
+Swap options (quote and swap):
+  --from <chain:token>       Origin chain and token symbol or address, e.g. base:WETH
+  --to <chain:token>         Destination chain and token, e.g. solana:USDC
+  --amount <amount>          Sell amount in token units, e.g. 0.001
+  --receiver <address>       Destination address (default: the configured receiver)
+  --sender <address>         Quote for this origin address (quote, default: the
+                             address of a configured private key; key files stay locked)
+  --slippage <bps>           Slippage tolerance in basis points (default: 100)
+  --sort <price|speed>       Which quote counts as best (default: price)
+  --bridges <names>          Only use these bridges, comma-separated
+  --exclude-bridges <names>  Never use these bridges, comma-separated
+  --gas-payer                Let SOLANA_GAS_PAYER_PRIVATE_KEY pay the Solana fees
+  --detach                   Stop once the origin transaction is confirmed (swap)
+  -y, --yes                  Swap without asking for confirmation (swap)
+  --count <n>                Number of quotes to compare, 1-10 (quote, default: 10)
+
+General options:
+  --format <table|json|csv>  Output format (default: table); csv is for quote only.
+                             JSON and CSV go to stdout, progress goes to stderr
+  --json                     Same as --format json
+  --profile <name>           Configuration profile
+  --config <path>            Configuration file
+  -h, --help                 Show this help
+
+Chains are registry names or chain IDs (base, solana, tron, 42161, ...). Tokens are
+symbols from the token registry (src/tokenList.json and gas tokens) or addresses.`;
+
+const OPTIONS = {
+  from: { type: "string" },
+  to: { type: "string" },
+  amount: { type: "string" },
+  receiver: { type: "string" },
+  sender: { type: "string" },
+  slippage: { type: "string" },
+  sort: { type: "string" },
+  bridges: { type: "string" },
+  "exclude-bridges": { type: "string" },
+  "gas-payer": { type: "boolean" },
+  detach: { type: "boolean" },
+  yes: { type: "boolean", short: "y" },
+  json: { type: "boolean" },
+  profile: { type: "string" },
+  config: { type: "string" },
+  help: { type: "boolean", short: "h" },
+  count: { type: "string" },
+  format: { type: "string" },
+} as const;
+
+type OutputFormat = "table" | "json" | "csv";
+
+type CliValues = ReturnType<typeof parseCliArgs>["values"];
+
+/**
+ * Invalid command line; printed with a pointer to `--help`
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+function parseChain(value: string, flag: string): ChainInfo {
+  const chain = getChain(value);
+  if (!chain) {
+    throw new UsageError(
+      `Unknown chain "${value}" in ${flag}; known chains: ${listChains()
+        .map((info) => info.name)
+        .join(", ")}`,
+    );
+  }
+  return chain;
+}
+
+/**
+ * `chain:token`, where token is a symbol from the token registry or an address
+ */
+async function parseTokenArg(
+  value: string | undefined,
+  flag: string,
+  tokens: TokenRegistry,
+): Promise<{ chain: ChainInfo; token: TokenInfo }> {
+  const separator = value?.indexOf(":") ?? -1;
+  if (!value || separator <= 0 || separator === value.length - 1) {
+    throw new UsageError(
+      `${flag} must look like <chain>:<token>, e.g. base:WETH`,
+    );
+  }
+  const chain = parseChain(value.slice(0, separator), flag);
+  const symbolOrAddress = value.slice(separator + 1);
+
+  if (isAddressForFamily(symbolOrAddress, chain.family)) {
+    return { chain, token: await tokens.resolve(chain, symbolOrAddress) };
+  }
+  const token = tokens.findBySymbol(chain, symbolOrAddress);
+  if (!token) {
+    throw new UsageError(
+      `Unknown token "${symbolOrAddress}" on ${chain.name} in ${flag}; pass its address instead`,
+    );
+  }
+  return { chain, token };
+}
+
+function parseBridges(value: string | undefined): string[] | undefined {
+  return value
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+async function parseSwapArgs(values: CliValues, tokens: TokenRegistry) {
+  const [from, to] = await Promise.all([
+    parseTokenArg(values.from, "--from", tokens),
+    parseTokenArg(values.to, "--to", tokens),
+  ]);
+
+  if (!values.amount) {
+    throw new UsageError("--amount is required, e.g. --amount 0.001");
+  }
+  let sellAmount: TokenAmount;
+  try {
+    sellAmount = TokenAmount.fromDecimal(
+      values.amount,
+      from.token.decimals,
+      from.token.symbol,
+    );
+  } catch (error) {
+    throw new UsageError(
+      `Invalid --amount: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  if (sellAmount.raw <= BigInt(0)) {
+    throw new UsageError("--amount must be greater than zero");
+  }
+
+  const slippageBps =
+    values.slippage === undefined ? undefined : Number(values.slippage);
+  if (
+    slippageBps !== undefined &&
+    (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10000)
+  ) {
+    throw new UsageError("--slippage must be 0-10000 basis points");
+  }
+
+  const sort = (["price", "speed"] as const).find(
+    (order) => order === (values.sort ?? "price"),
+  );
+  if (!sort) {
+    throw new UsageError('--sort must be "price" or "speed"');
+  }
+
+  return {
+    originChain: from.chain,
+    destinationChain: to.chain,
+    sellToken: from.token.address,
+    buyToken: to.token.address,
+    sellAmount: sellAmount.raw.toString(),
+    receiver: values.receiver,
+    gasPayer: values["gas-payer"],
+    sortQuotesBy: sort,
+    slippageBps,
+    includedBridges: parseBridges(values.bridges),
+    excludedBridges: parseBridges(values["exclude-bridges"]),
+    tokens,
+  };
+}
+
+function parseCount(value: string | undefined): number {
+  const count = value === undefined ? 10 : Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > 10) {
+    throw new UsageError("--count must be between 1 and 10");
+  }
+  return count;
+}
+
+function parseStatusArgs(positionals: string[]): CrossChainStatusRequest {
+  const [chainArg, txHash] = positionals;
+  if (!chainArg || !txHash) {
+    throw new UsageError("Expected <chain> <txHash>, e.g. base 0xabc…");
+  }
+  const chain = parseChain(chainArg, "<chain>");
+  return {
+    originChain: chain.quoteId,
+    // The status API expects Tron hashes with a 0x prefix
+    originTxHash:
+      chain.family === "tvm" && !txHash.startsWith("0x")
+        ? `0x${txHash}`
+        : txHash,
+  };
+}
+
+function printJson(value: unknown): void {
+  console.log(
+    JSON.stringify(
+      value,
+      (_, item) => (typeof item === "bigint" ? item.toString() : item),
+      2,
+    ),
+  );
+}
+
+async function confirmSwap(): Promise<boolean> {
+  const prompt = createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  try {
+    const answer = await prompt.question("\n❓ Execute this swap? [y/N] ");
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    prompt.close();
+  }
+}
+
+/**
+ * Sender of a quote: `--sender`, else the address of a key set directly in
+ * the configuration. Key files are not unlocked just to quote.
+ */
+function getQuoteIdentity(
+  config: Config,
+  values: CliValues,
+  options: { originChain: ChainInfo; gasPayer?: boolean },
+): ChainIdentity | null {
+  const { originChain } = options;
+  const derived = getChainIdentity(originChain, config, {
+    gasPayer: options.gasPayer,
+  });
+  if (values.sender === undefined) {
+    return derived;
+  }
+  if (!isAddressForFamily(values.sender, originChain.family)) {
+    throw new UsageError(
+      `--sender is not a valid ${CHAIN_FAMILY_NAMES[originChain.family]} address`,
+    );
+  }
+  return { address: values.sender, gasPayer: derived?.gasPayer ?? null };
+}
+
+async function quoteCommand(
+  config: Config,
+  values: CliValues,
+  format: OutputFormat,
+  logger: SwapLogger,
+) {
+  const tokens = new TokenRegistry();
+  const options = await parseSwapArgs(values, tokens);
+  const identity = getQuoteIdentity(config, values, options);
+  const request = {
+    ...buildQuotesRequest(config, options, identity),
+    maxNumQuotes: parseCount(values.count),
+  };
+  const client = new CrossChainClient(config.zeroexApiKey);
+
+  const [sellToken, buyToken] = await Promise.all([
+    tokens.resolve(options.originChain, options.sellToken),
+    tokens.resolve(options.destinationChain, options.buyToken),
+  ]);
+
+  if (!identity) {
+    logger.log(
+      "ℹ️  Quoting from a placeholder address; pass --sender to check balance and allowance",
+    );
+  }
+  logger.log(
+    `📊 Comparing up to ${request.maxNumQuotes} quotes: ${values.amount} ${sellToken.symbol} on ${options.originChain.displayName} → ${buyToken.symbol} on ${options.destinationChain.displayName}`,
+  );
+  const response = await client.getQuotes(request);
+  if (!response.liquidityAvailable) {
+    logger.log("❌ No liquidity available");
+    if (format === "json") {
+      printJson({ liquidityAvailable: false, zid: response.zid });
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const compared = compareQuotes(response.quotes, {
+    origin: options.originChain,
+    destination: options.destinationChain,
+    buyToken,
+    tokens,
+  });
+  if (format === "json") {
+    printJson({
+      request,
+      sellToken,
+      buyToken,
+      zid: response.zid,
+      quotes: toQuoteJson(compared),
+    });
+  } else if (format === "csv") {
+    console.log(renderQuoteCsv(compared));
+  } else {
+    logger.log(
+      `✅ ${compared.length} quote${compared.length === 1 ? "" : "s"} for ${toTokenAmount(sellToken, request.sellAmount)}\n`,
+    );
+    logger.log(renderQuoteTable(compared));
+  }
+}
+
+async function swapCommand(
+  config: Config,
+  values: CliValues,
+  format: OutputFormat,
+  logger: SwapLogger,
+) {
+  const options = await parseSwapArgs(values, new TokenRegistry());
+  // Without a key for the origin chain the swap only quotes; nothing to confirm
+  const canSign =
+    getChainIdentity(options.originChain, config, {
+      gasPayer: options.gasPayer,
+    }) !== null;
+  if (canSign && !values.yes && !process.stdin.isTTY) {
+    throw new UsageError(
+      "No terminal to confirm the swap on; pass --yes to swap non-interactively",
+    );
+  }
+  const result = await executeCrossChainSwap(config, {
+    ...options,
+    monitor: !values.detach,
+    confirm: values.yes ? undefined : confirmSwap,
+    logger,
+  });
+  if (format === "json") {
+    printJson(result);
+  }
+  if (
+    result.kind === "misconfigured" ||
+    result.kind === "noLiquidity" ||
+    result.kind === "insufficientBalance" ||
+    (result.kind === "executed" &&
+      result.outcome !== null &&
+      result.outcome.kind !== "completed")
+  ) {
+    process.exitCode = 1;
+  }
+}
+
+function logStatus(status: CrossChainStatusResponse, logger: SwapLogger) {
+  logger.log(`📊 Status: ${status.status}`);
+  if (status.bridge) {
+    logger.log(`🌉 Bridge: ${status.bridge}`);
+  }
+  if (status.transactions.length > 0) {
+    logger.log("📋 Transactions:");
+    status.transactions.forEach((tx, i) => {
+      const date = new Date(tx.timestamp * 1000).toLocaleString();
+      const explorerUrl =
+        (tx.txHash && getExplorerTxUrl(tx.chainId, tx.txHash)) ?? tx.txHash;
+      logger.log(`  ${i + 1}. ${tx.chain}: ${explorerUrl} (${date})`);
+    });
+  }
+  if (status.failure) {
+    logger.log(
+      `⚠️  Failure (${status.failure.status}): ${status.failure.reason}`,
+    );
+  }
+}
+
+/**
+ * One CLI for every route: `quote`, `swap`, `status` and `monitor`.
+ * Usage: npm run cli -- <command> [options]; see USAGE
+ */
+async function main() {
+  const { values, positionals } = parseCliArgs(process.argv.slice(2));
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const format = (["table", "json", "csv"] as const).find(
+    (name) => name === (values.json ? "json" : (values.format ?? "table")),
+  );
+  if (!format || (format === "csv" && command !== "quote")) {
+    throw new UsageError(
+      '--format must be "table" or "json", or "csv" for quote',
+    );
+  }
+  // With JSON or CSV output, stdout only carries the result
+  const logger: SwapLogger =
+    format === "table" ? console : { log: console.error, error: console.error };
+
+  switch (command) {
+    case "quote":
+      return quoteCommand(loadConfig(), values, format, logger);
+    case "swap":
+      return swapCommand(
+        await unlockKeys(loadConfig()),
+        values,
+        format,
+        logger,
+      );
+    case "status": {
+      const request = parseStatusArgs(rest);
+      const client = new CrossChainClient(loadConfig().zeroexApiKey);
+      const status = await client.getStatus(request);
+      if (format === "json") {
+        printJson(status);
+      } else {
+        logStatus(status, logger);
+      }
+      return;
+    }
+    case "monitor": {
+      const request = parseStatusArgs(rest);
+      const client = new CrossChainClient(loadConfig().zeroexApiKey);
+      logger.log("👀 Monitoring cross-chain transaction...");
+      const outcome = await monitorCrossChainTransaction(client, request, {
+        logger,
+      });
+      if (format === "json") {
+        printJson(outcome);
+      }
+      if (outcome.kind !== "completed") {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\nRun with --help for usage`);
+    } else {
+      logSwapError(error);
+    }
+    process.exitCode = 1;
+  });
+}
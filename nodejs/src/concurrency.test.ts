@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { mapConcurrently } from "./concurrency";
+import { CrossChainClient } from "./crossChainClient";
+
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+async function collect<R>(
+  iterable: AsyncIterable<{ index: number; value: R }>,
+): Promise<{ index: number; value: R }[]> {
+  const results: { index: number; value: R }[] = [];
+  for await (const result of iterable) {
+    results.push(result);
+  }
+  return results;
+}
+
+describe("mapConcurrently", () => {
+  it("yields results in completion order with their index", async () => {
+    const results = await collect(
+      mapConcurrently([30, 10, 20], 3, (ms) => delay(ms, ms * 2)),
+    );
+
+    assert.deepEqual(results, [
+      { index: 1, value: 20 },
+      { index: 2, value: 40 },
+      { index: 0, value: 60 },
+    ]);
+  });
+
+  it("runs at most `concurrency` tasks at once", async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await collect(
+      mapConcurrently([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(5, null);
+        active--;
+        return item;
+      }),
+    );
+
+    assert.equal(results.length, 7);
+    assert.equal(peak, 3);
+  });
+
+  it("runs one task at a time for a concurrency below 1", async () => {
+    let active = 0;
+    let peak = 0;
+
+    await collect(
+      mapConcurrently([1, 2, 3], 0, async () => {
+        peak = Math.max(peak, ++active);
+        await delay(1, null);
+        active--;
+      }),
+    );
+
+    assert.equal(peak, 1);
+  });
+
+  it("stops starting tasks when the iteration stops early", async () => {
+    const started: number[] = [];
+
+    for await (const _ of mapConcurrently([1, 2, 3, 4, 5], 2, async (item) => {
+      started.push(item);
+      return item;
+    })) {
+      break;
+    }
+
+    assert.deepEqual(started, [1, 2, 3]);
+  });
+
+  it("rejects with the first error after running tasks settle", async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+    let settled = 0;
+
+    try {
+      await assert.rejects(
+        collect(
+          mapConcurrently([5, 20, 40], 3, async (ms) => {
+            await delay(ms, null);
+            settled++;
+            if (ms !== 40) {
+              throw new Error(`failed after ${ms}ms`);
+            }
+          }),
+        ),
+        { message: "failed after 5ms" },
+      );
+      assert.equal(settled, 3);
+
+      await delay(10, null);
+      assert.deepEqual(unhandled, []);
+    } finally {
+      process.off("unhandledRejection", onUnhandled);
+    }
+  });
+});
+
+describe("getStatuses against a stub server", () => {
+  // Local 0x API stub: slower for lower hashes, 404 for `0xbad`
+  const server = createServer(
+    (request: IncomingMessage, response: ServerResponse) => {
+      const hash = new URL(request.url!, "http://stub").searchParams.get(
+        "originTxHash",
+      );
+      const found = hash !== "0xbad";
+      active++;
+      peak = Math.max(peak, active);
+      setTimeout(
+        () => {
+          active--;
+          response.writeHead(found ? 200 : 404, {
+            "content-type": "application/json",
+          });
+          response.end(
+            JSON.stringify(
+              found
+                ? {
+                    status: "bridge_filled",
+                    steps: [],
+                    failure: null,
+                    transactions: [],
+                    zid: hash,
+                  }
+                : { name: "NOT_FOUND", message: "Unknown transaction" },
+            ),
+          );
+        },
+        found ? 50 - Number(hash) * 10 : 0,
+      );
+    },
+  );
+  let active = 0;
+  let peak = 0;
+  let baseUrl = "";
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("returns results in request order and reports failed items", async () => {
+    const client = new CrossChainClient("test-key", { baseUrl });
+    const hashes = ["0x1", "0x2", "0xbad", "0x3", "0x4"];
+
+    const results = await client.getStatuses(
+      hashes.map((originTxHash) => ({ originChain: "base", originTxHash })),
+      { concurrency: 2 },
+    );
+
+    assert.deepEqual(
+      results.map((result) => result.request.originTxHash),
+      hashes,
+    );
+    assert.deepEqual(
+      results.map((result) => (result.ok ? result.value.zid : "failed")),
+      ["0x1", "0x2", "failed", "0x3", "0x4"],
+    );
+    assert.equal(peak, 2);
+  });
+});
@@ -0,0 +1,52 @@
+/** Items processed at once by the batch helpers unless told otherwise */
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+
+type Settled<R> =
+  | { index: number; ok: true; value: R }
+  | { index: number; ok: false; error: unknown };
+
+/**
+ * Run `task` for every item with at most `concurrency` tasks in flight,
+ * yielding results in completion order. Stopping the iteration early stops
+ * starting new tasks. A rejection ends the iteration once the tasks already
+ * running have settled, with the first error.
+ */
+export async function* mapConcurrently<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+): AsyncGenerator<{ index: number; value: R }> {
+  const running = new Map<number, Promise<Settled<R>>>();
+  let next = 0;
+
+  const startNext = () => {
+    const index = next++;
+    // Settling every task means none of their rejections goes unhandled
+    running.set(
+      index,
+      Promise.resolve()
+        .then(() => task(items[index], index))
+        .then(
+          (value): Settled<R> => ({ index, ok: true, value }),
+          (error: unknown): Settled<R> => ({ index, ok: false, error }),
+        ),
+    );
+  };
+
+  while (next < items.length && running.size < Math.max(1, concurrency)) {
+    startNext();
+  }
+
+  while (running.size > 0) {
+    const completed = await Promise.race(running.values());
+    running.delete(completed.index);
+    if (!completed.ok) {
+      await Promise.all(running.values());
+      throw completed.error;
+    }
+    if (next < items.length) {
+      startNext();
+    }
+    yield { index: completed.index, value: completed.value };
+  }
+}
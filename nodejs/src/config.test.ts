@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+import { getRpcUrls, setRpcUrls } from "./chains";
+import { ConfigError, loadConfig } from "./config";
+
+const CONFIG = `
+defaultProfile: base
+profiles:
+  base:
+    zeroexApiKey: \${ZEROEX_API_KEY:-base-key}
+    evmReceiverAddress: "0x00000000000000000000000000000000000000aa"
+    rpcUrls:
+      base: https://base.example
+      arbitrum: https://arbitrum.example
+  staging:
+    extends: base
+    rpcUrls:
+      8453: [https://staging.example, https://fallback.example]
+  bot:
+    extends: [base, staging]
+    zeroexApiKey: bot-$$key
+  loop-a:
+    extends: loop-b
+  loop-b:
+    extends: loop-a
+  orphan:
+    extends: missing
+  strict:
+    zeroexApiKey: \${STRICT_KEY}
+`;
+
+describe("loadConfig", () => {
+  let dir = "";
+  let configFile = "";
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "config-"));
+    configFile = join(dir, "zeroex.config.yaml");
+    await writeFile(configFile, CONFIG);
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    setRpcUrls("base", []);
+    setRpcUrls("arbitrum", []);
+  });
+
+  // Loads a profile without reading the real command line or environment
+  function load(profile: string, env: NodeJS.ProcessEnv = {}) {
+    return loadConfig({ profile, configFile, env, argv: [] });
+  }
+
+  it("uses the file's default profile", () => {
+    const config = loadConfig({ configFile, env: {}, argv: [] });
+
+    assert.equal(config.profile, "base");
+    assert.equal(config.zeroexApiKey, "base-key");
+    assert.deepEqual(config.rpcUrls, {
+      base: ["https://base.example"],
+      arbitrum: ["https://arbitrum.example"],
+    });
+    assert.deepEqual(getRpcUrls("base", {}), ["https://base.example"]);
+  });
+
+  it("merges extended profiles with RPC URLs per chain", () => {
+    const config = load("staging");
+
+    assert.equal(config.zeroexApiKey, "base-key");
+    assert.equal(
+      config.evmReceiverAddress,
+      "0x00000000000000000000000000000000000000aa",
+    );
+    // `8453` and `base` name the same chain
+    assert.deepEqual(config.rpcUrls, {
+      base: ["https://staging.example", "https://fallback.example"],
+      arbitrum: ["https://arbitrum.example"],
+    });
+  });
+
+  it("lets later profiles and the profile itself win", () => {
+    const config = load("bot");
+
+    assert.equal(config.zeroexApiKey, "bot-$key");
+    assert.deepEqual(config.rpcUrls.base, [
+      "https://staging.example",
+      "https://fallback.example",
+    ]);
+  });
+
+  it("rejects circular and unknown parents", () => {
+    assert.throws(
+      () => load("loop-a"),
+      /Circular profile inheritance .*: loop-a -> loop-b -> loop-a/,
+    );
+    assert.throws(
+      () => load("orphan"),
+      /Profile "orphan" extends unknown profile "missing"/,
+    );
+    assert.throws(() => load("nope"), /Unknown profile "nope"/);
+  });
+
+  it("interpolates environment variables and defaults", () => {
+    const apiKey = (profile: string, env: NodeJS.ProcessEnv) =>
+      load(profile, env).zeroexApiKey;
+
+    assert.equal(apiKey("base", { ZEROEX_API_KEY: "env-key" }), "env-key");
+    // Like the shell, the default also replaces empty values
+    assert.equal(apiKey("base", { ZEROEX_API_KEY: "" }), "base-key");
+    assert.equal(apiKey("strict", { STRICT_KEY: "strict" }), "strict");
+  });
+
+  it("reports unset variables without a default", () => {
+    assert.throws(
+      () => load("strict"),
+      (error: unknown) =>
+        error instanceof ConfigError &&
+        error.issues[0].path === "profiles.strict.zeroexApiKey" &&
+        /STRICT_KEY is not set/.test(error.issues[0].message),
+    );
+  });
+
+  it("reads --profile and --config from the command line", () => {
+    const config = loadConfig({
+      env: { ZEROEX_PROFILE: "base" },
+      argv: ["swap", "--config", configFile, "--profile=staging", "--yes"],
+    });
+
+    assert.equal(config.profile, "staging");
+    assert.equal(config.rpcUrls.base[0], "https://staging.example");
+  });
+
+  it("falls back to environment variables without a profile", async () => {
+    const emptyFile = join(dir, "empty.json");
+    await writeFile(emptyFile, JSON.stringify({ profiles: {} }));
+
+    const config = loadConfig({
+      configFile: emptyFile,
+      env: { ZEROEX_API_KEY: "env-key" },
+      argv: [],
+    });
+
+    assert.equal(config.profile, null);
+    assert.equal(config.zeroexApiKey, "env-key");
+  });
+});
@@ -1,103 +1,339 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, extname, resolve } from "path";
+import { parseArgs } from "util";
+import { parse as parseYaml } from "yaml";
 import { z } from "zod";
-import { isAddress as isEvmAddress } from "viem";
-import { isAddress as isSolanaAddress } from "@solana/addresses";
+import {
+  EvmAddress,
+  SolanaAddress,
+  toEvmAddress,
+  toSolanaAddress,
+  toTronAddress,
+  TronAddress,
+} from "./addresses";
+import { getChain, requireChain, setRpcUrls } from "./chains";
+import {
+  expandPath,
+  KEY_NAMES,
+  KeyName,
+  KeySource,
+  keystoreKeySource,
+  PassphraseProvider,
+  promptPassphrase,
+  solanaKeypairKeySource,
+  vaultKeySources,
+} from "./keySources";
+import {
+  EvmAddressSchema,
+  SolanaAddressSchema,
+  TronAddressSchema,
+} from "./schemas";
+
+// Optional address variable; an empty value counts as unset
+function optionalAddress<T extends z.ZodType>(schema: T) {
+  return z.preprocess((value) => value || undefined, schema.optional());
+}
+
+// Optional file path; an empty value counts as unset
+const OptionalPathSchema = z.preprocess(
+  (value) => value || undefined,
+  z.string().optional(),
+);
+
+const EvmPrivateKeySchema = z
+  .string()
+  .optional()
+  .refine((key) => {
+    if (!key) return true; // Optional field
+    // Remove 0x prefix if present
+    const cleanKey = key.startsWith("0x") ? key.slice(2) : key;
+    // Must be exactly 64 hex characters
+    return /^[0-9a-fA-F]{64}$/.test(cleanKey);
+  }, "Invalid EVM private key format (must be 64 hex characters, optionally prefixed with 0x)");
+
+const SolanaPrivateKeySchema = z
+  .string()
+  .optional()
+  .refine((key) => {
+    if (!key) return true; // Optional field
+    // Must be 44 or 88 characters and valid base58
+    const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{44,88}$/;
+    return base58Regex.test(key);
+  }, "Invalid Solana private key format (must be 44 or 88 character base58 string)");
+
+const SolanaGasPayerPrivateKeySchema = z
+  .string()
+  .optional()
+  .refine((key) => {
+    if (!key) return true; // Optional field
+    // Must be 44 or 88 characters and valid base58
+    const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{44,88}$/;
+    return base58Regex.test(key);
+  }, "Invalid Solana gas payer private key format (must be 44 or 88 character base58 string)");
+
+const TronPrivateKeySchema = z
+  .string()
+  .optional()
+  .refine((key) => {
+    if (!key) return true; // Optional field
+    // Must be exactly 64 hex characters (no 0x prefix)
+    const cleanKey = key.startsWith("0x") ? key.slice(2) : key;
+    return /^[0-9a-fA-F]{64}$/.test(cleanKey);
+  }, "Invalid Tron private key format (must be 64 hex characters)");
 
 const EnvironmentConfigurationSchema = z.object({
   ZEROEX_API_KEY: z.string(),
-  EVM_PRIVATE_KEY: z
-    .string()
-    .optional()
-    .refine((key) => {
-      if (!key) return true; // Optional field
-      // Remove 0x prefix if present
-      const cleanKey = key.startsWith("0x") ? key.slice(2) : key;
-      // Must be exactly 64 hex characters
-      return /^[0-9a-fA-F]{64}$/.test(cleanKey);
-    }, "Invalid EVM private key format (must be 64 hex characters, optionally prefixed with 0x)"),
-  SOLANA_PRIVATE_KEY: z
-    .string()
-    .optional()
-    .refine((key) => {
-      if (!key) return true; // Optional field
-      // Must be 44 or 88 characters and valid base58
-      const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{44,88}$/;
-      return base58Regex.test(key);
-    }, "Invalid Solana private key format (must be 44 or 88 character base58 string)"),
-  SOLANA_GAS_PAYER_PRIVATE_KEY: z
-    .string()
-    .optional()
-    .refine((key) => {
-      if (!key) return true; // Optional field
-      // Must be 44 or 88 characters and valid base58
-      const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{44,88}$/;
-      return base58Regex.test(key);
-    }, "Invalid Solana gas payer private key format (must be 44 or 88 character base58 string)"),
-  TRON_PRIVATE_KEY: z
-    .string()
-    .optional()
-    .refine((key) => {
-      if (!key) return true; // Optional field
-      // Must be exactly 64 hex characters (no 0x prefix)
-      const cleanKey = key.startsWith("0x") ? key.slice(2) : key;
-      return /^[0-9a-fA-F]{64}$/.test(cleanKey);
-    }, "Invalid Tron private key format (must be 64 hex characters)"),
-  EVM_RECEIVER_ADDRESS: z
-    .string()
-    .optional()
-    .refine((address) => {
-      if (!address) return true; // Optional field
-      return isEvmAddress(address);
-    }, "Invalid EVM address format"),
-  SOLANA_RECEIVER_ADDRESS: z
-    .string()
-    .optional()
-    .refine((address) => {
-      if (!address) return true; // Optional field
-      try {
-        return isSolanaAddress(address);
-      } catch {
-        return false;
+  EVM_PRIVATE_KEY: EvmPrivateKeySchema,
+  SOLANA_PRIVATE_KEY: SolanaPrivateKeySchema,
+  SOLANA_GAS_PAYER_PRIVATE_KEY: SolanaGasPayerPrivateKeySchema,
+  TRON_PRIVATE_KEY: TronPrivateKeySchema,
+  EVM_RECEIVER_ADDRESS: optionalAddress(EvmAddressSchema),
+  SOLANA_RECEIVER_ADDRESS: optionalAddress(SolanaAddressSchema),
+  TRON_RECEIVER_ADDRESS: optionalAddress(TronAddressSchema),
+  // Key files, used instead of the private key variables above
+  EVM_KEYSTORE: OptionalPathSchema,
+  TRON_KEYSTORE: OptionalPathSchema,
+  SOLANA_KEYPAIR: OptionalPathSchema,
+  SOLANA_GAS_PAYER_KEYPAIR: OptionalPathSchema,
+  KEY_VAULT: OptionalPathSchema,
+});
+
+// One URL or a list in order of preference
+const RpcUrlsSchema = z
+  .union([z.string().url(), z.array(z.string().url()).min(1)])
+  .transform((urls) => (typeof urls === "string" ? [urls] : urls));
+
+/**
+ * A profile in the config file. Every field is optional so profiles can be
+ * partial and fill the rest in from the profiles they extend.
+ */
+const ProfileSchema = z.strictObject({
+  /** Profile(s) to inherit from; later ones and the profile itself win */
+  extends: z.union([z.string(), z.array(z.string())]).optional(),
+  zeroexApiKey: z.string().min(1).optional(),
+  evmPrivateKey: EvmPrivateKeySchema,
+  solanaPrivateKey: SolanaPrivateKeySchema,
+  solanaGasPayerPrivateKey: SolanaGasPayerPrivateKeySchema,
+  tronPrivateKey: TronPrivateKeySchema,
+  evmReceiverAddress: optionalAddress(EvmAddressSchema),
+  solanaReceiverAddress: optionalAddress(SolanaAddressSchema),
+  tronReceiverAddress: optionalAddress(TronAddressSchema),
+  /** Key files; relative paths are resolved against the config file's directory */
+  evmKeystore: OptionalPathSchema,
+  tronKeystore: OptionalPathSchema,
+  solanaKeypair: OptionalPathSchema,
+  solanaGasPayerKeypair: OptionalPathSchema,
+  keyVault: OptionalPathSchema,
+  /** Keyed by chain name or ID, e.g. `base` or `8453` */
+  rpcUrls: z
+    .record(z.string(), RpcUrlsSchema)
+    .superRefine((rpcUrls, ctx) => {
+      for (const chain of Object.keys(rpcUrls)) {
+        if (!getChain(chain)) {
+          ctx.addIssue({
+            code: "custom",
+            path: [chain],
+            message: `Unknown chain "${chain}"`,
+          });
+        }
       }
-    }, "Invalid Solana address format"),
-  TRON_RECEIVER_ADDRESS: z
-    .string()
-    .optional()
-    .refine((address) => {
-      if (!address) return true; // Optional field
-      return /^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
-    }, "Invalid Tron address format (must be Base58Check starting with T)"),
-  BASE_RPC_URL: z.string().url().default("https://mainnet.base.org"),
-  ARBITRUM_RPC_URL: z.string().url().default("https://arb1.arbitrum.io/rpc"),
-  SOLANA_RPC_URL: z
-    .string()
-    .url()
-    .default("https://api.mainnet-beta.solana.com"),
-  TRON_RPC_URL: z.string().url().default("https://api.trongrid.io"),
+    })
+    // Key by chain name so `base` and `8453` override each other
+    .transform((rpcUrls) =>
+      Object.fromEntries(
+        Object.entries(rpcUrls).map(([chain, urls]) => [
+          requireChain(chain).name,
+          urls,
+        ]),
+      ),
+    )
+    .optional(),
 });
 
+// Profiles are only checked for shape here; values are validated after interpolation
+const ConfigFileSchema = z.strictObject({
+  /** Profile used when none is selected */
+  defaultProfile: z.string().optional(),
+  profiles: z.record(z.string(), z.record(z.string(), z.unknown())),
+});
+
+type Profile = z.output<typeof ProfileSchema>;
+
+/** Searched for in the working directory when no config file is given */
+export const CONFIG_FILE_NAMES = [
+  "zeroex.config.json",
+  "zeroex.config.yaml",
+  "zeroex.config.yml",
+] as const;
+
 export interface Config {
+  /** Profile the configuration was loaded from, `null` for environment variables */
+  profile: string | null;
   zeroexApiKey: string;
   evmPrivateKey?: string;
   solanaPrivateKey?: string;
   solanaGasPayerPrivateKey?: string;
   tronPrivateKey?: string;
-  evmReceiverAddress?: string;
-  solanaReceiverAddress?: string;
-  tronReceiverAddress?: string;
-  rpcUrls: {
-    base: string;
-    arbitrum: string;
-    solana: string;
-    tron: string;
-  };
+  evmReceiverAddress?: EvmAddress;
+  solanaReceiverAddress?: SolanaAddress;
+  tronReceiverAddress?: TronAddress;
+  /** RPC URLs from the profile by chain name, in order of preference */
+  rpcUrls: Record<string, string[]>;
+  /**
+   * Keystores, keypair files and vaults for keys not given directly.
+   * `unlockKeys` reads them into the private key fields.
+   */
+  keySources: Partial<Record<KeyName, KeySource>>;
 }
 
-export function loadConfig(): Config {
-  const environmentConfiguration = EnvironmentConfigurationSchema.parse(
-    process.env,
+/** Where each key can come from, with the setting names used in error messages */
+interface KeySettings {
+  privateKeys: Partial<Record<KeyName, string>>;
+  keyFiles: Partial<Record<KeyName, string>>;
+  keyVault?: string;
+  names: Record<KeyName, [privateKey: string, keyFile: string]>;
+}
+
+const KEY_FILE_SOURCES: Record<KeyName, (path: string) => KeySource> = {
+  evm: (path) => keystoreKeySource(path),
+  solana: solanaKeypairKeySource,
+  solanaGasPayer: solanaKeypairKeySource,
+  tron: (path) => keystoreKeySource(path, "tron"),
+};
+
+const KEY_SCHEMAS: Record<KeyName, z.ZodType<string | undefined>> = {
+  evm: EvmPrivateKeySchema,
+  solana: SolanaPrivateKeySchema,
+  solanaGasPayer: SolanaGasPayerPrivateKeySchema,
+  tron: TronPrivateKeySchema,
+};
+
+export interface LoadConfigOptions {
+  /** Defaults to `--profile`, then `ZEROEX_PROFILE`, then the file's `defaultProfile` */
+  profile?: string;
+  /** Defaults to `--config`, then `ZEROEX_CONFIG`, then the first of `CONFIG_FILE_NAMES` found */
+  configFile?: string;
+  env?: NodeJS.ProcessEnv;
+  argv?: string[];
+}
+
+export interface ConfigIssue {
+  /** Dotted path in the config file, e.g. `profiles.staging-bot.evmPrivateKey` */
+  path: string;
+  message: string;
+}
+
+/**
+ * The configuration file or profile is invalid; `issues` holds one entry per problem
+ */
+export class ConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(context: string, issues: ConfigIssue[]) {
+    super(
+      `${context}:\n${issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join("\n")}`,
+    );
+    this.name = new.target.name;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Load the configuration from a profile of the config file, or from environment
+ * variables when no profile is selected. Profile values do not fall back to the
+ * environment; reference variables explicitly with `${VAR}` or `${VAR:-default}`.
+ * The profile's RPC URLs are applied to the chain registry (see `setRpcUrls`).
+ * Keys in keystores, keypair files or a vault are read by `unlockKeys`.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const env = options.env ?? process.env;
+  const args = parseConfigArgs(options.argv ?? process.argv.slice(2));
+  const configFile =
+    options.configFile ?? args.config ?? env.ZEROEX_CONFIG ?? findConfigFile();
+  const file = configFile ? readConfigFile(configFile) : null;
+  const profile =
+    options.profile ??
+    args.profile ??
+    env.ZEROEX_PROFILE ??
+    file?.defaultProfile;
+
+  if (!profile) {
+    return loadEnvironmentConfig(env);
+  }
+  if (!file || !configFile) {
+    throw new Error(
+      `Profile "${profile}" selected, but no config file found (looked for ${CONFIG_FILE_NAMES.join(", ")}; set --config or ZEROEX_CONFIG)`,
+    );
+  }
+
+  const resolved = resolveProfile(file.profiles, profile, env, configFile);
+  if (!resolved.zeroexApiKey) {
+    throw new ConfigError(`Invalid profile "${profile}" in ${configFile}`, [
+      {
+        path: `profiles.${profile}.zeroexApiKey`,
+        message: "Required (set it in the profile or one it extends)",
+      },
+    ]);
+  }
+
+  const keySources = buildKeySources(
+    {
+      privateKeys: {
+        evm: resolved.evmPrivateKey,
+        solana: resolved.solanaPrivateKey,
+        solanaGasPayer: resolved.solanaGasPayerPrivateKey,
+        tron: resolved.tronPrivateKey,
+      },
+      keyFiles: {
+        evm: resolved.evmKeystore,
+        solana: resolved.solanaKeypair,
+        solanaGasPayer: resolved.solanaGasPayerKeypair,
+        tron: resolved.tronKeystore,
+      },
+      keyVault: resolved.keyVault,
+      names: {
+        evm: ["evmPrivateKey", "evmKeystore"],
+        solana: ["solanaPrivateKey", "solanaKeypair"],
+        solanaGasPayer: ["solanaGasPayerPrivateKey", "solanaGasPayerKeypair"],
+        tron: ["tronPrivateKey", "tronKeystore"],
+      },
+    },
+    dirname(configFile),
   );
 
+  const rpcUrls: Record<string, string[]> = {};
+  for (const [chain, urls] of Object.entries(resolved.rpcUrls ?? {})) {
+    rpcUrls[chain] = urls;
+    setRpcUrls(chain, urls);
+  }
+
   return {
+    profile,
+    zeroexApiKey: resolved.zeroexApiKey,
+    evmPrivateKey: resolved.evmPrivateKey,
+    solanaPrivateKey: resolved.solanaPrivateKey,
+    solanaGasPayerPrivateKey: resolved.solanaGasPayerPrivateKey,
+    tronPrivateKey: resolved.tronPrivateKey,
+    evmReceiverAddress: resolved.evmReceiverAddress,
+    solanaReceiverAddress: resolved.solanaReceiverAddress,
+    tronReceiverAddress: resolved.tronReceiverAddress,
+    rpcUrls,
+    keySources,
+  };
+}
+
+function loadEnvironmentConfig(env: NodeJS.ProcessEnv): Config {
+  const result = EnvironmentConfigurationSchema.safeParse(env);
+  if (!result.success) {
+    throw new ConfigError(
+      "Invalid environment configuration",
+      toIssues(result.error),
+    );
+  }
+  const environmentConfiguration = result.data;
+
+  return {
+    profile: null,
     zeroexApiKey: environmentConfiguration.ZEROEX_API_KEY,
     evmPrivateKey: environmentConfiguration.EVM_PRIVATE_KEY,
     solanaPrivateKey: environmentConfiguration.SOLANA_PRIVATE_KEY,
@@ -106,53 +342,302 @@ export function loadConfig(): Config {
     evmReceiverAddress: environmentConfiguration.EVM_RECEIVER_ADDRESS,
     solanaReceiverAddress: environmentConfiguration.SOLANA_RECEIVER_ADDRESS,
     tronReceiverAddress: environmentConfiguration.TRON_RECEIVER_ADDRESS,
-    rpcUrls: {
-      base: environmentConfiguration.BASE_RPC_URL,
-      arbitrum: environmentConfiguration.ARBITRUM_RPC_URL,
-      solana: environmentConfiguration.SOLANA_RPC_URL,
-      tron: environmentConfiguration.TRON_RPC_URL,
-    },
+    rpcUrls: {},
+    keySources: buildKeySources(
+      {
+        privateKeys: {
+          evm: environmentConfiguration.EVM_PRIVATE_KEY,
+          solana: environmentConfiguration.SOLANA_PRIVATE_KEY,
+          solanaGasPayer: environmentConfiguration.SOLANA_GAS_PAYER_PRIVATE_KEY,
+          tron: environmentConfiguration.TRON_PRIVATE_KEY,
+        },
+        keyFiles: {
+          evm: environmentConfiguration.EVM_KEYSTORE,
+          solana: environmentConfiguration.SOLANA_KEYPAIR,
+          solanaGasPayer: environmentConfiguration.SOLANA_GAS_PAYER_KEYPAIR,
+          tron: environmentConfiguration.TRON_KEYSTORE,
+        },
+        keyVault: environmentConfiguration.KEY_VAULT,
+        names: {
+          evm: ["EVM_PRIVATE_KEY", "EVM_KEYSTORE"],
+          solana: ["SOLANA_PRIVATE_KEY", "SOLANA_KEYPAIR"],
+          solanaGasPayer: [
+            "SOLANA_GAS_PAYER_PRIVATE_KEY",
+            "SOLANA_GAS_PAYER_KEYPAIR",
+          ],
+          tron: ["TRON_PRIVATE_KEY", "TRON_KEYSTORE"],
+        },
+      },
+      process.cwd(),
+    ),
   };
 }
 
-export const CHAIN_IDS = {
-  base: 8453,
-  arbitrum: 42161,
-  solana: "solana",
-  tron: "tron",
-} as const;
+/**
+ * One source per key that is not given directly: its keystore or keypair
+ * file, otherwise the vault. A key and a key file for the same signer conflict.
+ */
+function buildKeySources(
+  settings: KeySettings,
+  baseDir: string,
+): Partial<Record<KeyName, KeySource>> {
+  const vault = settings.keyVault
+    ? vaultKeySources(expandPath(settings.keyVault, baseDir))
+    : null;
+  const sources: Partial<Record<KeyName, KeySource>> = {};
+
+  for (const name of KEY_NAMES) {
+    const keyFile = settings.keyFiles[name];
+    if (settings.privateKeys[name] && keyFile) {
+      const [privateKey, keyFileName] = settings.names[name];
+      throw new Error(
+        `Both ${privateKey} and ${keyFileName} are set; remove one of them`,
+      );
+    }
+    if (settings.privateKeys[name]) {
+      continue;
+    }
+    const source = keyFile
+      ? KEY_FILE_SOURCES[name](expandPath(keyFile, baseDir))
+      : vault?.[name];
+    if (source) {
+      sources[name] = source;
+    }
+  }
+  return sources;
+}
+
+/**
+ * Read the keys of `config.keySources` into its private key fields, asking for
+ * each encrypted file's passphrase once (on the terminal by default). Keys are
+ * validated like the private key variables and only kept in memory.
+ */
+export async function unlockKeys(
+  config: Config,
+  options: { passphrase?: PassphraseProvider } = {},
+): Promise<Config> {
+  const ask =
+    options.passphrase ??
+    ((path: string) => promptPassphrase(`🔑 Passphrase for ${path}: `));
+  const passphrases = new Map<string, Promise<string>>();
+  const passphrase: PassphraseProvider = (path) => {
+    let pending = passphrases.get(path);
+    if (!pending) {
+      pending = ask(path);
+      passphrases.set(path, pending);
+    }
+    return pending;
+  };
+
+  const keys: Partial<Record<KeyName, string>> = {};
+  // One at a time, so passphrase prompts do not interleave
+  for (const name of KEY_NAMES) {
+    const source = config.keySources[name];
+    const key = source && (await source.load(passphrase));
+    if (!source || !key) {
+      continue;
+    }
+    const result = KEY_SCHEMAS[name].safeParse(key);
+    if (!result.success) {
+      throw new ConfigError(
+        `Invalid key in ${source.description}`,
+        toIssues(result.error, [name]),
+      );
+    }
+    keys[name] = key;
+  }
+
+  return {
+    ...config,
+    evmPrivateKey: keys.evm ?? config.evmPrivateKey,
+    solanaPrivateKey: keys.solana ?? config.solanaPrivateKey,
+    solanaGasPayerPrivateKey:
+      keys.solanaGasPayer ?? config.solanaGasPayerPrivateKey,
+    tronPrivateKey: keys.tron ?? config.tronPrivateKey,
+    keySources: {},
+  };
+}
+
+// Only picks out the config flags; scripts may accept other arguments
+function parseConfigArgs(argv: string[]): {
+  profile?: string;
+  config?: string;
+} {
+  const { values } = parseArgs({
+    args: argv,
+    options: { profile: { type: "string" }, config: { type: "string" } },
+    strict: false,
+    allowPositionals: true,
+  });
+  return {
+    profile: typeof values.profile === "string" ? values.profile : undefined,
+    config: typeof values.config === "string" ? values.config : undefined,
+  };
+}
+
+function findConfigFile(): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => resolve(name)).find((path) =>
+    existsSync(path),
+  );
+}
+
+function readConfigFile(path: string): z.infer<typeof ConfigFileSchema> {
+  let content: unknown;
+  try {
+    const text = readFileSync(path, "utf8");
+    content = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(
+      `Cannot read config file ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const result = ConfigFileSchema.safeParse(content);
+  if (!result.success) {
+    throw new ConfigError(`Invalid config file ${path}`, toIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Interpolate and validate a profile and the profiles it extends, then merge
+ * them: later profiles win, `rpcUrls` are merged per chain
+ */
+function resolveProfile(
+  profiles: Record<string, Record<string, unknown>>,
+  name: string,
+  env: NodeJS.ProcessEnv,
+  configFile: string,
+  chain: string[] = [],
+): Profile {
+  if (chain.includes(name)) {
+    throw new Error(
+      `Circular profile inheritance in ${configFile}: ${[...chain, name].join(" -> ")}`,
+    );
+  }
+  const raw = profiles[name];
+  if (!raw) {
+    const available = Object.keys(profiles).join(", ") || "none";
+    throw new Error(
+      chain.length
+        ? `Profile "${chain[chain.length - 1]}" extends unknown profile "${name}" in ${configFile}`
+        : `Unknown profile "${name}" in ${configFile} (available: ${available})`,
+    );
+  }
+
+  const result = ProfileSchema.safeParse(
+    interpolate(raw, env, `profiles.${name}`, configFile),
+  );
+  if (!result.success) {
+    throw new ConfigError(
+      `Invalid profile "${name}" in ${configFile}`,
+      toIssues(result.error, ["profiles", name]),
+    );
+  }
+
+  const parents =
+    typeof result.data.extends === "string"
+      ? [result.data.extends]
+      : (result.data.extends ?? []);
+  const { extends: _, ...own } = result.data;
+  return [
+    ...parents.map((parent) =>
+      resolveProfile(profiles, parent, env, configFile, [...chain, name]),
+    ),
+    own,
+  ].reduce<Profile>(
+    (merged, profile) => ({
+      ...merged,
+      ...withoutUndefined(profile),
+      rpcUrls: { ...merged.rpcUrls, ...profile.rpcUrls },
+    }),
+    {},
+  );
+}
+
+const VARIABLE_PATTERN = /\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` in every string; `$$` is a literal `$`
+ */
+function interpolate(
+  value: unknown,
+  env: NodeJS.ProcessEnv,
+  path: string,
+  configFile: string,
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(VARIABLE_PATTERN, (match, variable, fallback) => {
+      if (match === "$$") {
+        return "$";
+      }
+      // Like the shell, the default also replaces empty values
+      const resolved = env[variable] || (fallback ?? env[variable]);
+      if (resolved === undefined) {
+        throw new ConfigError(`Cannot interpolate ${configFile}`, [
+          {
+            path,
+            message: `Environment variable ${variable} is not set (use \${${variable}:-} to allow it)`,
+          },
+        ]);
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      interpolate(item, env, `${path}.${index}`, configFile),
+    );
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        interpolate(field, env, `${path}.${key}`, configFile),
+      ]),
+    );
+  }
+  return value;
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined),
+  ) as Partial<T>;
+}
+
+function toIssues(
+  error: z.ZodError,
+  prefix: PropertyKey[] = [],
+): ConfigIssue[] {
+  return error.issues.map((issue) => ({
+    path: [...prefix, ...issue.path].map(String).join(".") || "(root)",
+    message: issue.message,
+  }));
+}
 
 export const TOKEN_ADDRESSES = {
   // Base
-  ETH_BASE: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
-  USDC_BASE: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
-  WETH_BASE: "0x4200000000000000000000000000000000000006",
+  ETH_BASE: toEvmAddress("0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE"),
+  USDC_BASE: toEvmAddress("0x833589fcd6edb6e08f4c7c32d4f71b54bda02913"),
+  WETH_BASE: toEvmAddress("0x4200000000000000000000000000000000000006"),
 
   // Arbitrum
-  ETH_ARB: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
-  USDC_ARB: "0xaf88d065e77c8cc2239327c5edb3a432268e5831",
-  WETH_ARB: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+  ETH_ARB: toEvmAddress("0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE"),
+  USDC_ARB: toEvmAddress("0xaf88d065e77c8cc2239327c5edb3a432268e5831"),
+  WETH_ARB: toEvmAddress("0x82aF49447D8a07e3bd95BD0d56f35241523fBab1"),
 
   // Solana
-  SOL: "So11111111111111111111111111111111111111112",
-  WSOL: "So11111111111111111111111111111111111111112",
-  USDC_SOL: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+  SOL: toSolanaAddress("So11111111111111111111111111111111111111112"),
+  WSOL: toSolanaAddress("So11111111111111111111111111111111111111112"),
+  USDC_SOL: toSolanaAddress("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"),
 
   // Tron
-  USDT_TRON: "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t",
-} as const;
-
-// Numeric chain IDs returned in status API responses
-// (different from the string identifiers used in the quote API for non-EVM chains)
-export const STATUS_CHAIN_IDS = {
-  base: 8453,
-  arbitrum: 42161,
-  solana: 999999999991,
-  tron: 999999999993,
+  USDT_TRON: toTronAddress("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t"),
 } as const;
 
 export const DEFAULT_ADDRESSES = {
-  EVM: "0xABf40AADf960e20B4283dc5A06387A429Ba02456",
-  SOLANA: "9FzTJNUfMVSPPNEsUDfUHuE1gSE7uDBamcGHq1CseUUZ",
-  TRON: "TJnN6n7T3KTSzEyUMUcHeq3J4gwSDmUuZv",
+  EVM: toEvmAddress("0xABf40AADf960e20B4283dc5A06387A429Ba02456"),
+  SOLANA: toSolanaAddress("9FzTJNUfMVSPPNEsUDfUHuE1gSE7uDBamcGHq1CseUUZ"),
+  TRON: toTronAddress("TJnN6n7T3KTSzEyUMUcHeq3J4gwSDmUuZv"),
 } as const;
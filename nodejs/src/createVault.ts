@@ -0,0 +1,67 @@
+import { config as dotenv } from "dotenv";
+import { existsSync } from "fs";
+import { parseArgs } from "util";
+import { loadConfig, unlockKeys } from "./config";
+import {
+  expandPath,
+  KEY_NAMES,
+  promptPassphrase,
+  VaultKeys,
+  writeVault,
+} from "./keySources";
+
+dotenv({ quiet: true });
+
+/**
+ * Encrypt the configured private keys (from .env, key files or a profile) into
+ * a key vault, so the plaintext keys can be removed.
+ * Usage: npm run create-vault -- [path] [--profile <name>]
+ */
+async function createVault() {
+  console.log("🔐 Create Key Vault");
+  console.log("===================");
+
+  const { positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: { profile: { type: "string" }, config: { type: "string" } },
+    allowPositionals: true,
+  });
+  const path = expandPath(positionals[0] ?? "keys.vault.json");
+  if (existsSync(path)) {
+    console.error(`❌ ${path} already exists - choose another path`);
+    process.exit(1);
+  }
+
+  const configuration = await unlockKeys(loadConfig());
+  const keys: VaultKeys = {
+    evm: configuration.evmPrivateKey || undefined,
+    solana: configuration.solanaPrivateKey || undefined,
+    solanaGasPayer: configuration.solanaGasPayerPrivateKey || undefined,
+    tron: configuration.tronPrivateKey || undefined,
+  };
+  const names = KEY_NAMES.filter((name) => keys[name]);
+  if (names.length === 0) {
+    console.error("❌ No private keys configured - nothing to encrypt");
+    process.exit(1);
+  }
+
+  const passphrase = await promptPassphrase("🔑 New vault passphrase: ");
+  if (!passphrase) {
+    console.error("❌ The passphrase must not be empty");
+    process.exit(1);
+  }
+  if (passphrase !== (await promptPassphrase("🔑 Repeat the passphrase: "))) {
+    console.error("❌ Passphrases do not match");
+    process.exit(1);
+  }
+
+  await writeVault(path, keys, passphrase);
+  console.log(`✅ Encrypted ${names.join(", ")} keys into ${path}`);
+  console.log(
+    "  Set KEY_VAULT (or keyVault in your profile) to this path and remove the plaintext private keys",
+  );
+}
+
+if (require.main === module) {
+  createVault().catch(console.error);
+}
@@ -1,136 +1,838 @@
+import { z } from "zod";
 import {
-  CrossChainQuotesRequest,
-  CrossChainQuotesResponse,
-  CrossChainQuotesResponseSchema,
+  createAbortScope,
+  raceAbort,
+  sleep,
+  throwIfAborted,
+  toAbortError,
+} from "./abort";
+import { AmountMode, toBigIntAmounts, WithAmounts } from "./amounts";
+import {
+  CacheOptions,
+  DEFAULT_CACHE_OPTIONS,
+  getCacheKey,
+  MemoryCacheStore,
+} from "./cache";
+import { DEFAULT_BATCH_CONCURRENCY, mapConcurrently } from "./concurrency";
+import {
+  createApiError,
+  ZeroExAbortError,
+  ZeroExApiError,
+  ZeroExAuthError,
+  ZeroExNetworkError,
+  ZeroExRequestValidationError,
+  ZeroExSchemaError,
+  ZeroExTimeoutError,
+  ZeroExValidationError,
+} from "./errors";
+import { isSettled, MonitorOutcome, resolveOutcome } from "./monitorOutcome";
+import {
+  CrossChainQuotesRequestInput,
+  CrossChainQuotesRequestSchema,
   CrossChainStatusRequest,
-  CrossChainStatusResponse,
-  CrossChainStatusResponseSchema,
+  LenientCrossChainQuotesResponse,
+  LenientQuote,
+  QuoteFor,
+  QuotesResponseFor,
+  RESPONSE_SCHEMAS,
+  SchemaMode,
+  StatusResponseFor,
 } from "./schemas";
+import { PollingOptions, PollingSchedule } from "./pollingSchedule";
+import { QuoteStreamEvent, toQuoteStreamEvent } from "./quoteStream";
+import { getQuoteWarnings, QuoteWarning, toErrorDetails } from "./quoteWarnings";
+import {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  RetryPolicy,
+  withRetry,
+} from "./retry";
+import {
+  getRateLimiter,
+  RateLimiter,
+  RateLimiterStats,
+  RateLimitOptions,
+  RequestPriority,
+} from "./rateLimiter";
+import { readServerSentEvents } from "./sse";
+import { TransactionWatcher } from "./transactionWatcher";
+import {
+  appendQueryParameters,
+  FetchLike,
+  Middleware,
+  RequestContext,
+} from "./transport";
+
+export interface CrossChainClientOptions<
+  Mode extends SchemaMode = "strict",
+  Amounts extends AmountMode = "string"
+> {
+  baseUrl?: string;
+  /** Custom fetch implementation, defaults to the global `fetch` */
+  fetch?: FetchLike;
+  /** Middleware run, in order, for every request */
+  middleware?: Middleware[];
+  /** Retry policy applied to every call made by this client */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Cache quotes and statuses and share one request between identical concurrent calls.
+   * `true` uses an in-memory store with the default TTLs.
+   */
+  cache?: boolean | Partial<CacheOptions>;
+  /**
+   * Throttle requests with a token bucket and a concurrency limit shared by every client
+   * using the same API key. `true` uses the default limits.
+   */
+  rateLimit?: boolean | Partial<RateLimitOptions>;
+  /**
+   * "strict" (default) rejects responses that do not match the schemas with ZeroExSchemaError.
+   * "lenient" keeps unknown enum values and turns unknown step, gas cost and transaction
+   * variants into `unknown` variants carrying the raw payload.
+   */
+  schemaMode?: Mode;
+  /** Called when a lenient response does not match the strict schemas; defaults to `console.warn` */
+  onSchemaDrift?: (drift: SchemaDrift) => void;
+  /**
+   * "bigint" returns amounts, fees and gas costs as `bigint` instead of strings.
+   * Transaction payloads are left as returned so they can be handed to wallets.
+   */
+  amounts?: Amounts;
+}
+
+/**
+ * A response accepted in lenient mode that the strict schemas reject
+ */
+export interface SchemaDrift {
+  operation: string;
+  url: string;
+  zid: string | null;
+  /** Where the response differs from the strict schemas */
+  issues: z.core.$ZodIssue[];
+}
+
+export interface RequestOptions {
+  /** Override the client retry policy for this call, or `false` to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Cancel the call; it then rejects with ZeroExAbortError */
+  signal?: AbortSignal;
+  /** Give up after this many milliseconds, retries included; rejects with ZeroExTimeoutError */
+  timeoutMs?: number;
+  /** Set to `false` to bypass the client cache for this call */
+  cache?: boolean;
+  /** Queue priority under rate limiting; quotes default to interactive, statuses to background */
+  priority?: RequestPriority;
+}
+
+export interface QuotesRequestOptions extends RequestOptions {
+  /** Set to `false` to send the request as is, skipping client-side validation and defaults */
+  validate?: boolean;
+  /** Reject with ZeroExRequestValidationError when the API reports unknown bridge or swap source names */
+  rejectInvalidFilters?: boolean;
+}
+
+export interface BatchOptions extends RequestOptions {
+  /** Requests in flight at once; `timeoutMs` applies to each request */
+  concurrency?: number;
+}
+
+type ResponseSchemaName = keyof (typeof RESPONSE_SCHEMAS)["strict"];
+type QuotesResponse<
+  Mode extends SchemaMode,
+  Amounts extends AmountMode
+> = WithAmounts<QuotesResponseFor<Mode>, Amounts>;
+type StatusResponse<
+  Mode extends SchemaMode,
+  Amounts extends AmountMode
+> = WithAmounts<StatusResponseFor<Mode>, Amounts>;
+
+/** Outcome of one item of a batch; a failed item does not fail the batch */
+export type BatchResult<T> =
+  | { ok: true; request: CrossChainStatusRequest; value: T }
+  | { ok: false; request: CrossChainStatusRequest; error: unknown };
+
+/** Quotes response with the unknown bridge and swap source names reported as warnings */
+export type CrossChainQuotesResult<
+  Mode extends SchemaMode = "strict",
+  Amounts extends AmountMode = "string"
+> = QuotesResponse<Mode, Amounts> & {
+  warnings: QuoteWarning[];
+};
+
+export interface MonitorOptions extends RequestOptions {
+  /** Quote the transaction was executed from; its ETA paces polling and sets the default deadline */
+  quote?: LenientQuote;
+  /** Fine-tune the adaptive polling intervals */
+  polling?: Partial<PollingOptions>;
+}
 
-export class CrossChainClient {
+export class CrossChainClient<
+  Mode extends SchemaMode = "strict",
+  Amounts extends AmountMode = "string"
+> {
   private readonly apiKey: string;
   private readonly baseUrl: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly fetch: FetchLike;
+  private readonly middleware: Middleware[];
+  private readonly cache: CacheOptions | null;
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private readonly rateLimiter: RateLimiter | null;
+  private readonly schemaMode: SchemaMode;
+  private readonly onSchemaDrift: (drift: SchemaDrift) => void;
+  private readonly amounts: AmountMode;
 
-  constructor(apiKey: string, baseUrl = "https://api.0x.org") {
+  constructor(
+    apiKey: string,
+    options: CrossChainClientOptions<Mode, Amounts> = {}
+  ) {
     this.apiKey = apiKey;
-    this.baseUrl = baseUrl;
+    this.baseUrl = options.baseUrl ?? "https://api.0x.org";
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+    this.middleware = [...(options.middleware ?? [])];
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.cache = options.cache
+      ? {
+          store: new MemoryCacheStore(),
+          ...DEFAULT_CACHE_OPTIONS,
+          ...(options.cache === true ? {} : options.cache),
+        }
+      : null;
+    this.rateLimiter = options.rateLimit
+      ? getRateLimiter(
+          apiKey,
+          options.rateLimit === true ? undefined : options.rateLimit
+        )
+      : null;
+    this.schemaMode = options.schemaMode ?? "strict";
+    this.amounts = options.amounts ?? "string";
+    this.onSchemaDrift =
+      options.onSchemaDrift ??
+      ((drift) =>
+        console.warn(
+          `0x API schema drift in ${drift.operation} (zid: ${drift.zid}):`,
+          drift.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")
+        ));
   }
 
   /**
-   * Get multiple quotes for a cross-chain swap
+   * Queue depth and wait times of the rate limiter, or `null` when rate limiting is off
    */
-  async getQuotes(
-    request: CrossChainQuotesRequest
-  ): Promise<CrossChainQuotesResponse> {
-    const url = new URL("/cross-chain/quotes", this.baseUrl);
+  getRateLimiterStats(): RateLimiterStats | null {
+    return this.rateLimiter?.getStats() ?? null;
+  }
 
-    // Add query parameters
-    Object.entries(request).forEach(([key, value]) => {
-      if (value !== undefined) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
+  /**
+   * Register middleware that runs for every request made by this client
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
 
-    const response = await fetch(url.toString(), {
-      method: "GET",
-      headers: {
-        "0x-api-key": this.apiKey,
-        "Content-Type": "application/json",
-      },
-    });
+  /**
+   * Get multiple quotes for a cross-chain swap.
+   * The request is validated first; invalid fields reject with ZeroExRequestValidationError.
+   * Bridge and swap source names the API did not recognize are returned as `warnings`.
+   */
+  async getQuotes<
+    Origin extends string | number,
+    Destination extends string | number
+  >(
+    request: CrossChainQuotesRequestInput<Origin, Destination>,
+    options: QuotesRequestOptions = {}
+  ): Promise<CrossChainQuotesResult<Mode, Amounts>> {
+    const query = prepareQuotesRequest(request, options);
+    const response = await this.cached<QuotesResponseFor<Mode>>(
+      getCacheKey(`getQuotes:${this.schemaMode}`, query),
+      options,
+      (_, cache) => cache.quoteTtlMs,
+      (options) =>
+        this.requestJson({
+          operation: "getQuotes",
+          path: "/cross-chain/quotes",
+          query,
+          priority: "interactive",
+          schema: "quotes",
+          errorContext: "Failed to fetch quotes",
+          options,
+        })
+    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to fetch quotes: ${response.status} ${response.statusText}\n${errorText}`
+    const parsed: LenientCrossChainQuotesResponse = response;
+    const warnings = getQuoteWarnings(
+      request,
+      parsed.liquidityAvailable ? parsed.issues : null
+    );
+    if (options.rejectInvalidFilters && warnings.length > 0) {
+      throw new ZeroExRequestValidationError(
+        "Unknown bridge or swap source names",
+        toErrorDetails(warnings)
       );
     }
-
-    const data = await response.json();
-    return CrossChainQuotesResponseSchema.parse(data);
+    return {
+      ...this.withAmounts(response, "/cross-chain/quotes"),
+      warnings,
+    };
   }
 
   /**
    * Get the status of a cross-chain transaction
    */
   async getStatus(
-    request: CrossChainStatusRequest
-  ): Promise<CrossChainStatusResponse> {
-    const url = new URL("/cross-chain/status", this.baseUrl);
-
-    // Add query parameters
-    Object.entries(request).forEach(([key, value]) => {
-      if (value !== undefined) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
+    request: CrossChainStatusRequest,
+    options: RequestOptions = {}
+  ): Promise<StatusResponse<Mode, Amounts>> {
+    const status = await this.cached<StatusResponseFor<Mode>>(
+      getCacheKey(`getStatus:${this.schemaMode}`, request),
+      options,
+      // Settled transactions cannot change anymore
+      (status, cache) => (isSettled(status) ? null : cache.statusTtlMs),
+      (options) =>
+        this.requestJson({
+          operation: "getStatus",
+          path: "/cross-chain/status",
+          query: request,
+          priority: "background",
+          schema: "status",
+          errorContext: "Failed to fetch status",
+          options,
+        })
+    );
+    return this.withAmounts(status, "/cross-chain/status");
+  }
 
-    const response = await fetch(url.toString(), {
-      method: "GET",
-      headers: {
-        "0x-api-key": this.apiKey,
-        "Content-Type": "application/json",
-      },
-    });
+  /**
+   * Get the statuses of many transactions with bounded concurrency.
+   * Results are in request order; a failed lookup is reported in its result instead of rejecting.
+   */
+  async getStatuses(
+    requests: CrossChainStatusRequest[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult<StatusResponse<Mode, Amounts>>[]> {
+    const results: BatchResult<StatusResponse<Mode, Amounts>>[] = [];
+    for await (const { index, ...result } of this.getStatusesStream(
+      requests,
+      options
+    )) {
+      results[index] = result;
+    }
+    return results;
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to fetch status: ${response.status} ${response.statusText}\n${errorText}`
-      );
+  /**
+   * Like `getStatuses`, but yields every result, with its request index, as soon as it completes
+   */
+  async *getStatusesStream(
+    requests: CrossChainStatusRequest[],
+    options: BatchOptions = {}
+  ): AsyncGenerator<
+    BatchResult<StatusResponse<Mode, Amounts>> & { index: number }
+  > {
+    const { concurrency = DEFAULT_BATCH_CONCURRENCY, ...requestOptions } =
+      options;
+
+    for await (const { index, value } of mapConcurrently(
+      requests,
+      concurrency,
+      (request) =>
+        this.getStatus(request, requestOptions).then(
+          (status) => ({ ok: true as const, request, value: status }),
+          (error: unknown) => ({ ok: false as const, request, error })
+        )
+    )) {
+      // Cancelling the batch rejects it rather than failing every item
+      throwIfAborted(options.signal);
+      yield { ...value, index };
     }
+  }
+
+  /**
+   * Stream quotes as the API finds them. Iteration ends after the `result` event
+   * or a fatal `error` event; breaking out of the loop closes the connection.
+   */
+  async *getQuotesStream<
+    Origin extends string | number,
+    Destination extends string | number
+  >(
+    request: CrossChainQuotesRequestInput<Origin, Destination>,
+    options: QuotesRequestOptions = {}
+  ): AsyncGenerator<
+    QuoteStreamEvent<WithAmounts<QuoteFor<Mode>, Amounts>>
+  > {
+    const query = prepareQuotesRequest(request, options);
+    const scope = createAbortScope(options.signal, options.timeoutMs);
+    const signal = scope.signal;
+
+    try {
+      // Retries only cover opening the stream, never events already delivered
+      const { response, url } = await this.request({
+        operation: "getQuotesStream",
+        path: "/cross-chain/quotes/stream",
+        query,
+        headers: { Accept: "text/event-stream" },
+        errorContext: "Failed to stream quotes",
+        retry: options.retry,
+        priority: options.priority ?? "interactive",
+        signal,
+        read: async (response, context) => ({
+          response,
+          url: context.url.toString(),
+        }),
+      });
+
+      if (!response.body) {
+        throw new ZeroExNetworkError(url, "Response has no body");
+      }
+
+      for await (const data of readServerSentEvents(response.body, signal)) {
+        let json: unknown;
+        try {
+          json = JSON.parse(data);
+        } catch {
+          json = data;
+        }
+        const message = this.parse("quoteStream", json, {
+          operation: "getQuotesStream",
+          url,
+          status: response.status,
+        });
+        const event = toQuoteStreamEvent(message) as QuoteStreamEvent<
+          QuoteFor<Mode>
+        >;
+        yield event.type === "quote"
+          ? {
+              ...event,
+              quote: this.withAmounts(
+                event.quote,
+                "/cross-chain/quotes/stream"
+              ),
+            }
+          : event;
 
-    const data = await response.json();
-    return CrossChainStatusResponseSchema.parse(data);
+        if (event.type === "result" || (event.type === "error" && event.fatal)) {
+          return;
+        }
+      }
+    } finally {
+      scope.dispose();
+    }
   }
 
   /**
-   * Monitor a cross-chain transaction until completion
+   * Monitor a cross-chain transaction until it completes, reverts, or a failed bridge is refunded
+   * or needs manual action. `timeoutMs` is a wall-clock deadline for the whole session (derived
+   * from the quote ETA when omitted); reaching it resolves with a `timedOut` outcome.
    */
   async monitorTransaction(
     request: CrossChainStatusRequest,
-    options: {
-      maxAttempts?: number;
-      intervalMs?: number;
-      onUpdate?: (status: CrossChainStatusResponse) => void;
+    options: MonitorOptions & {
+      onUpdate?: (status: StatusResponse<Mode, Amounts>) => void;
     } = {}
-  ): Promise<CrossChainStatusResponse> {
-    const { maxAttempts = 60, intervalMs = 5000, onUpdate } = options;
+  ): Promise<MonitorOutcome<StatusResponse<Mode, Amounts>>> {
+    let status: StatusResponse<Mode, Amounts> | null = null;
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const status = await this.getStatus(request);
+    try {
+      for await (status of this.pollStatus(request, options)) {
+        options.onUpdate?.(status);
+      }
+    } catch (error) {
+      // The monitoring deadline passed; caller cancellation still rejects
+      if (error instanceof ZeroExTimeoutError) {
+        return { kind: "timedOut", status };
+      }
+      throw error;
+    }
 
-        if (onUpdate) {
-          onUpdate(status);
-        }
+    const outcome = status && resolveOutcome(status);
+    if (!outcome) {
+      throw new Error("Transaction monitoring ended without a final status");
+    }
+    return outcome;
+  }
 
-        // Check if transaction is in a final state
-        const finalStates = [
-          "bridge_filled",
-          "bridge_failed",
-          "origin_tx_reverted",
-        ];
+  /**
+   * Watch a cross-chain transaction, reporting only status, step, transaction and failure changes.
+   * Iterate the returned watcher with `for await` or subscribe with `on(...)`.
+   */
+  watchTransaction(
+    request: CrossChainStatusRequest,
+    options: MonitorOptions = {}
+  ): TransactionWatcher<StatusResponse<Mode, Amounts>> {
+    return new TransactionWatcher((stopSignal) =>
+      this.pollStatus(request, {
+        ...options,
+        signal: options.signal
+          ? AbortSignal.any([options.signal, stopSignal])
+          : stopSignal,
+      })
+    );
+  }
 
-        if (finalStates.includes(status.status)) {
-          return status;
-        }
+  /**
+   * Monitor many transactions until each reaches an outcome, polling at most `concurrency`
+   * of them at a time. Results are in request order; `onResult` reports each as it ends.
+   */
+  async monitorMany(
+    requests: CrossChainStatusRequest[],
+    options: Omit<MonitorOptions, "quote"> & {
+      concurrency?: number;
+      onResult?: (
+        result: BatchResult<MonitorOutcome<StatusResponse<Mode, Amounts>>>
+      ) => void;
+    } = {}
+  ): Promise<BatchResult<MonitorOutcome<StatusResponse<Mode, Amounts>>>[]> {
+    const {
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      onResult,
+      ...monitorOptions
+    } = options;
+    const results: BatchResult<
+      MonitorOutcome<StatusResponse<Mode, Amounts>>
+    >[] = [];
 
-        // Wait before next attempt
-        if (attempt < maxAttempts - 1) {
-          await new Promise((resolve) => setTimeout(resolve, intervalMs));
-        }
-      } catch (error) {
-        console.warn(`Status check attempt ${attempt + 1} failed:`, error);
-        if (attempt === maxAttempts - 1) {
-          throw error;
+    for await (const { index, value } of mapConcurrently(
+      requests,
+      concurrency,
+      (request) =>
+        this.monitorTransaction(request, monitorOptions).then(
+          (outcome) => ({ ok: true as const, request, value: outcome }),
+          (error: unknown) => ({ ok: false as const, request, error })
+        )
+    )) {
+      throwIfAborted(options.signal);
+      results[index] = value;
+      onResult?.(value);
+    }
+    return results;
+  }
+
+  /**
+   * Poll the status endpoint, yielding every status until an outcome is reached
+   */
+  private async *pollStatus(
+    request: CrossChainStatusRequest,
+    options: MonitorOptions
+  ): AsyncGenerator<StatusResponse<Mode, Amounts>> {
+    const schedule = new PollingSchedule(options.quote, options.polling);
+    const scope = createAbortScope(
+      options.signal,
+      options.timeoutMs ?? schedule.deadlineMs
+    );
+    const signal = scope.signal;
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        let delayMs: number;
+
+        try {
+          const status = await this.getStatus(request, {
+            retry: options.retry,
+            signal,
+          });
+          yield status;
+
+          // Failed bridges are followed until their refund settles
+          if (resolveOutcome(status)) {
+            return;
+          }
+
+          delayMs = schedule.nextDelay(status.status);
+        } catch (error) {
+          // Cancellation, a rejected request or key will not succeed on the next poll either
+          if (
+            error instanceof ZeroExAbortError ||
+            error instanceof ZeroExValidationError ||
+            error instanceof ZeroExAuthError ||
+            error instanceof ZeroExSchemaError
+          ) {
+            throw error;
+          }
+          console.warn(`Status check attempt ${attempt} failed:`, error);
+
+          // Back off at least as long as the server asked us to
+          const retryAfterMs =
+            error instanceof ZeroExApiError ? (error.retryAfterMs ?? 0) : 0;
+          delayMs = Math.max(schedule.nextDelay(null), retryAfterMs);
         }
-        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+
+        await sleep(delayMs, signal);
       }
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Apply the amount mode; the cache keeps responses in their JSON form
+   */
+  private withAmounts<T>(value: T, path: string): WithAmounts<T, Amounts> {
+    return (
+      this.amounts === "bigint"
+        ? toBigIntAmounts(value, {
+            url: new URL(path, this.baseUrl).toString(),
+            status: 200,
+          })
+        : value
+    ) as WithAmounts<T, Amounts>;
+  }
+
+  /**
+   * Serve a call from the cache when enabled, sharing one in-flight request between
+   * identical concurrent calls. `ttlMs` returns `null` to keep a value indefinitely.
+   * The shared request runs with the client defaults; each caller's `signal` and
+   * `timeoutMs` only end its own wait.
+   */
+  private async cached<T>(
+    key: string,
+    options: RequestOptions,
+    ttlMs: (value: T, cache: CacheOptions) => number | null,
+    load: (options: RequestOptions) => Promise<T>
+  ): Promise<T> {
+    const cache = this.cache;
+    if (!cache || options.cache === false) {
+      return load(options);
     }
 
-    throw new Error(
-      `Transaction monitoring timed out after ${maxAttempts} attempts`
+    const hit = await cache.store.get(key);
+    if (hit !== undefined) {
+      return hit as T;
+    }
+
+    let pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      // One caller cancelling, timing out or disabling retries must not fail the others
+      pending = load({})
+        .then(async (value) => {
+          const ttl = ttlMs(value, cache);
+          if (ttl !== 0) {
+            await cache.store.set(key, value, ttl);
+          }
+          return value;
+        })
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    const scope = createAbortScope(options.signal, options.timeoutMs);
+    try {
+      return await raceAbort(pending, scope.signal);
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Issue a request and validate its JSON body against the `schema` of the client's mode
+   */
+  private async requestJson<K extends ResponseSchemaName>(params: {
+    operation: string;
+    path: string;
+    query: Record<string, unknown>;
+    schema: K;
+    errorContext: string;
+    /** Default queue priority of the operation */
+    priority: RequestPriority;
+    options: RequestOptions;
+  }): Promise<z.infer<(typeof RESPONSE_SCHEMAS)[Mode][K]>> {
+    const scope = createAbortScope(
+      params.options.signal,
+      params.options.timeoutMs
     );
+    const signal = scope.signal;
+
+    try {
+      return await this.request({
+        ...params,
+        retry: params.options.retry,
+        priority: params.options.priority ?? params.priority,
+        signal,
+        read: async (response, context) => {
+          const data = await response.json().catch((error) => {
+            // Aborting while the body is still streaming rejects here
+            throw signal?.aborted ? toAbortError(signal) : error;
+          });
+          return this.parse(params.schema, data, {
+            operation: params.operation,
+            url: context.url.toString(),
+            status: response.status,
+          });
+        },
+      });
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Validate a response body against the `schema` of the client's mode.
+   * In lenient mode, bodies the strict schema rejects are reported as drift.
+   */
+  private parse<K extends ResponseSchemaName>(
+    schema: K,
+    data: unknown,
+    response: { operation: string; url: string; status: number }
+  ): z.infer<(typeof RESPONSE_SCHEMAS)[Mode][K]> {
+    const { operation, url, status } = response;
+    const parsed = parseResponse(
+      RESPONSE_SCHEMAS[this.schemaMode][schema],
+      data,
+      { url, status }
+    );
+
+    if (this.schemaMode === "lenient") {
+      const strict = RESPONSE_SCHEMAS.strict[schema].safeParse(data);
+      if (!strict.success) {
+        this.onSchemaDrift({
+          operation,
+          url,
+          zid: getZid(data),
+          issues: strict.error.issues,
+        });
+      }
+    }
+    return parsed as z.infer<(typeof RESPONSE_SCHEMAS)[Mode][K]>;
   }
+
+  /**
+   * Shared request pipeline: URL building, middleware, retries and error mapping.
+   * `read` consumes a successful response; its failures are reported to `onError` too.
+   */
+  private async request<R>(params: {
+    operation: string;
+    path: string;
+    query: Record<string, unknown>;
+    headers?: Record<string, string>;
+    errorContext: string;
+    retry?: Partial<RetryPolicy> | false;
+    priority: RequestPriority;
+    signal?: AbortSignal;
+    read: (response: Response, context: RequestContext) => Promise<R>;
+  }): Promise<R> {
+    const signal = params.signal;
+    let attempt = 0;
+
+    return withRetry(
+      async () => {
+        const url = new URL(params.path, this.baseUrl);
+        appendQueryParameters(url, params.query);
+
+        const context: RequestContext = {
+          operation: params.operation,
+          method: "GET",
+          url,
+          headers: {
+            "0x-api-key": this.apiKey,
+            "Content-Type": "application/json",
+            ...params.headers,
+          },
+          attempt: ++attempt,
+        };
+
+        try {
+          for (const middleware of this.middleware) {
+            await middleware.onRequest?.(context);
+          }
+
+          const send = () =>
+            this.fetch(context.url.toString(), {
+              method: context.method,
+              headers: context.headers,
+              signal,
+            });
+
+          let response: Response;
+          try {
+            // Every attempt, retries included, waits for its turn
+            response = await (this.rateLimiter
+              ? this.rateLimiter.schedule(send, {
+                  priority: params.priority,
+                  signal,
+                })
+              : send());
+          } catch (error) {
+            if (signal?.aborted) {
+              throw toAbortError(signal);
+            }
+            throw new ZeroExNetworkError(context.url.toString(), error);
+          }
+
+          for (const middleware of this.middleware) {
+            response =
+              (await middleware.onResponse?.(context, response)) ?? response;
+          }
+
+          if (!response.ok) {
+            throw createApiError(params.errorContext, {
+              status: response.status,
+              statusText: response.statusText,
+              url: context.url.toString(),
+              body: await response.text(),
+              retryAfter: response.headers.get("retry-after"),
+            });
+          }
+
+          return await params.read(response, context);
+        } catch (error) {
+          for (const middleware of this.middleware) {
+            await middleware.onError?.(context, error);
+          }
+          throw error;
+        }
+      },
+      resolveRetryPolicy(this.retryPolicy, params.retry),
+      // Every endpoint used by this client is a GET and safe to repeat
+      { idempotent: true, signal }
+    );
+  }
+}
+
+/**
+ * Validate a quotes request and apply its defaults, unless validation is turned off
+ */
+function prepareQuotesRequest(
+  request: CrossChainQuotesRequestInput,
+  options: QuotesRequestOptions
+): Record<string, unknown> {
+  if (options.validate === false) {
+    return request;
+  }
+
+  const result = CrossChainQuotesRequestSchema.safeParse(request);
+  if (result.success) {
+    return result.data;
+  }
+  throw new ZeroExRequestValidationError(
+    "Invalid quotes request",
+    result.error.issues.map((issue) => ({
+      field: issue.path.join(".") || "request",
+      reason: issue.message,
+    }))
+  );
+}
+
+/**
+ * Validate a successful response body, surfacing mismatches as ZeroExSchemaError
+ */
+function parseResponse<T extends z.ZodType>(
+  schema: T,
+  data: unknown,
+  response: { url: string; status: number }
+): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  throw new ZeroExSchemaError(
+    `Unexpected response shape from ${new URL(response.url).pathname}: ${result.error.message}`,
+    { ...response, zid: getZid(data), issues: result.error.issues }
+  );
+}
+
+function getZid(data: unknown): string | null {
+  return typeof data === "object" && data !== null && "zid" in data
+    ? String(data.zid)
+    : null;
 }
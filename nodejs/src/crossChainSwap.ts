@@ -0,0 +1,482 @@
+import { ChainAddress, ChainFamily } from "./addresses";
+import { ChainIdentity, createChainAdapter } from "./chainAdapters";
+import {
+  ChainInfo,
+  ChainRef,
+  getExplorerTxUrl,
+  requireChain,
+} from "./chains";
+import { Config, DEFAULT_ADDRESSES } from "./config";
+import { CrossChainClient } from "./crossChainClient";
+import {
+  ZeroExApiError,
+  ZeroExAuthError,
+  ZeroExRateLimitError,
+  ZeroExRequestValidationError,
+  ZeroExValidationError,
+} from "./errors";
+import { MonitorOutcome } from "./monitorOutcome";
+import {
+  CrossChainQuotesRequestInput,
+  CrossChainStatusRequest,
+  Quote,
+} from "./schemas";
+import {
+  nativeTokenAmount,
+  TokenInfo,
+  TokenRegistry,
+  toTokenAmount,
+} from "./tokens";
+
+/** Where progress is printed; `console` by default */
+export type SwapLogger = Pick<Console, "log" | "error">;
+
+export interface CrossChainSwapOptions {
+  originChain: ChainRef | ChainInfo;
+  destinationChain: ChainRef | ChainInfo;
+  sellToken: string;
+  buyToken: string;
+  /** In base units of the sell token */
+  sellAmount: string;
+  /** Defaults to the configured receiver for the destination chain family */
+  receiver?: string;
+  /** Let `solanaGasPayerPrivateKey` pay the Solana network fees */
+  gasPayer?: boolean;
+  sortQuotesBy?: "price" | "speed";
+  slippageBps?: number;
+  includedBridges?: string[];
+  excludedBridges?: string[];
+  /**
+   * Asked once the quote is printed, before any approval or transaction is
+   * sent; resolving `false` stops with a `declined` result
+   */
+  confirm?: (quote: Quote) => boolean | Promise<boolean>;
+  /**
+   * Monitor the bridge until it settles (default); `false` resolves as soon
+   * as the origin transaction is confirmed, with a `null` outcome
+   */
+  monitor?: boolean;
+  client?: CrossChainClient;
+  tokens?: TokenRegistry;
+  logger?: SwapLogger;
+}
+
+export type CrossChainSwapResult =
+  /** Keys or receiver missing; nothing was requested */
+  | { kind: "misconfigured"; reason: string }
+  | { kind: "noLiquidity"; zid: string }
+  | { kind: "insufficientBalance"; quote: Quote }
+  /** No private key for the origin chain, so the quote was not executed */
+  | { kind: "quoteOnly"; quote: Quote }
+  /** `confirm` resolved `false` */
+  | { kind: "declined"; quote: Quote }
+  | {
+      kind: "executed";
+      quote: Quote;
+      txHash: string;
+      /** `null` if monitoring was skipped or failed */
+      outcome: MonitorOutcome | null;
+    };
+
+const PRIVATE_KEY_SETTINGS: Record<ChainFamily, string> = {
+  evm: "EVM_PRIVATE_KEY",
+  svm: "SOLANA_PRIVATE_KEY",
+  tvm: "TRON_PRIVATE_KEY",
+};
+
+const RECEIVER_SETTINGS: Record<ChainFamily, string> = {
+  evm: "EVM_RECEIVER_ADDRESS",
+  svm: "SOLANA_RECEIVER_ADDRESS",
+  tvm: "TRON_RECEIVER_ADDRESS",
+};
+
+/** Addresses used in quote-only mode; not owned by you */
+const PLACEHOLDER_ADDRESSES: Record<ChainFamily, ChainAddress> = {
+  evm: DEFAULT_ADDRESSES.EVM,
+  svm: DEFAULT_ADDRESSES.SOLANA,
+  tvm: DEFAULT_ADDRESSES.TRON,
+};
+
+function getConfiguredReceiver(
+  config: Config,
+  family: ChainFamily,
+): ChainAddress | undefined {
+  switch (family) {
+    case "evm":
+      return config.evmReceiverAddress;
+    case "svm":
+      return config.solanaReceiverAddress;
+    case "tvm":
+      return config.tronReceiverAddress;
+  }
+}
+
+/**
+ * Quote, approve, sign, broadcast, confirm and monitor a swap between any two
+ * chains, printing each step. Without a private key for the origin chain only
+ * the quote is fetched (quote-only mode).
+ */
+export async function executeCrossChainSwap(
+  config: Config,
+  options: CrossChainSwapOptions,
+): Promise<CrossChainSwapResult> {
+  const logger = options.logger ?? console;
+  const origin = requireChain(options.originChain);
+  const destination = requireChain(options.destinationChain);
+  const client = options.client ?? new CrossChainClient(config.zeroexApiKey);
+  const tokens = options.tokens ?? new TokenRegistry();
+
+  const adapter = createChainAdapter(origin, config, {
+    gasPayer: options.gasPayer,
+  });
+  if (options.gasPayer && !adapter?.gasPayer) {
+    const reason = `${PRIVATE_KEY_SETTINGS.svm} and SOLANA_GAS_PAYER_PRIVATE_KEY are required for gas payer swaps`;
+    logger.error(`❌ ${reason}`);
+    return { kind: "misconfigured", reason };
+  }
+  if (!adapter) {
+    logger.log(
+      `⚠️  No ${PRIVATE_KEY_SETTINGS[origin.family]} provided - running in quote-only mode`,
+    );
+  }
+
+  const receiverAddress =
+    options.receiver ?? getConfiguredReceiver(config, destination.family);
+
+  // Safety check: if executing transactions, require explicit receiver address
+  if (adapter && !receiverAddress) {
+    const setting = RECEIVER_SETTINGS[destination.family];
+    const reason = `${setting} must be set when executing transactions`;
+    logger.log(`❌ SAFETY: ${reason}`);
+    logger.log("This prevents accidentally sending funds to a default address");
+    logger.log(`Set ${setting} in your environment or .env file`);
+    return { kind: "misconfigured", reason };
+  }
+
+  const request = buildQuotesRequest(config, options, adapter);
+  logger.log(`👤 Sender (${origin.displayName}): ${request.originAddress}`);
+  if (adapter?.gasPayer) {
+    logger.log(`⛽ Gas Payer (${origin.displayName}): ${adapter.gasPayer}`);
+  }
+  logger.log(
+    `🎯 Receiver (${destination.displayName}): ${request.destinationAddress}`,
+  );
+
+  // Step 1: Get the best quote
+  logger.log("\n📊 Getting cross-chain quote...");
+  const quoteResponse = await client.getQuotes(request);
+
+  if (!quoteResponse.liquidityAvailable) {
+    logger.log("❌ No liquidity available");
+    return { kind: "noLiquidity", zid: quoteResponse.zid };
+  }
+
+  const quote = quoteResponse.quotes[0];
+  const [sellToken, buyToken] = await Promise.all([
+    tokens.resolve(origin, options.sellToken),
+    tokens.resolve(destination, options.buyToken),
+  ]);
+  logQuote(quote, { origin, sellToken, buyToken }, logger);
+  if (adapter?.gasPayer && quote.gasCosts.chainType !== "evm") {
+    logger.log("  💡 Network fees are paid by the gas payer");
+  }
+
+  // Check for balance issues first - skip everything if insufficient balance
+  if (quote.issues.balance) {
+    logger.log("❌ Insufficient balance detected");
+    logger.log(`  🔧 Token: ${quote.issues.balance.token}`);
+    logger.log(`  💰 Required: ${quote.issues.balance.expected}`);
+    logger.log(`  💰 Available: ${quote.issues.balance.actual}`);
+    logger.log("\n⚠️  Cannot proceed with transaction - insufficient balance");
+    return { kind: "insufficientBalance", quote };
+  }
+
+  if (quote.issues.allowance) {
+    logger.log("⚠️  Allowance issue detected - approval needed");
+    logger.log(`  📍 Spender: ${quote.issues.allowance.spender}`);
+    logger.log(`  💰 Current allowance: ${quote.issues.allowance.actual}`);
+  }
+
+  if (!adapter) {
+    logger.log(
+      `\n💡 To execute this transaction, provide ${PRIVATE_KEY_SETTINGS[origin.family]} in your environment`,
+    );
+    return { kind: "quoteOnly", quote };
+  }
+
+  if (options.confirm && !(await options.confirm(quote))) {
+    logger.log("🛑 Swap cancelled");
+    return { kind: "declined", quote };
+  }
+
+  if (quote.issues.allowance) {
+    logger.log("\n🔧 Sending approval transaction...");
+    const approvalHash = await adapter.approve(
+      options.sellToken,
+      quote.issues.allowance.spender,
+      BigInt(options.sellAmount),
+    );
+    if (approvalHash) {
+      logger.log("✅ Approval confirmed");
+      logger.log(`🔗 View approval: ${adapter.getExplorerTxUrl(approvalHash)}`);
+    }
+  }
+
+  // Step 2: Execute transaction
+  logger.log(`\n🚀 Executing transaction on ${origin.displayName}...`);
+  logger.log("📋 Transaction details:");
+  for (const line of adapter.describeTransaction(quote.transaction)) {
+    logger.log(`  ${line}`);
+  }
+
+  logger.log("📤 Signing and sending transaction...");
+  const txHash = await adapter.sendTransaction(quote.transaction);
+  logger.log(`📝 Transaction sent: ${txHash}`);
+
+  logger.log(
+    `⏳ Waiting for transaction confirmation on ${origin.displayName}...`,
+  );
+  const { block } = await adapter.waitForConfirmation(txHash);
+  logger.log(`✅ Transaction confirmed in block: ${block}`);
+  logger.log(
+    `🔗 View on ${origin.explorer.name}: ${adapter.getExplorerTxUrl(txHash)}`,
+  );
+
+  if (options.monitor === false) {
+    return { kind: "executed", quote, txHash, outcome: null };
+  }
+
+  // Step 3: Monitor cross-chain transaction
+  logger.log("\n👀 Monitoring cross-chain transaction...");
+  logger.log("This may take several minutes for the bridge to complete...");
+  try {
+    const outcome = await monitorCrossChainTransaction(
+      client,
+      {
+        originChain: origin.quoteId,
+        originTxHash: adapter.toStatusTxHash(txHash),
+      },
+      { quote, logger },
+    );
+    return { kind: "executed", quote, txHash, outcome };
+  } catch (monitorError) {
+    if (monitorError instanceof ZeroExApiError && !monitorError.retryable) {
+      logger.error(`⚠️  Monitoring stopped: ${monitorError.message}`);
+    } else {
+      logger.error(
+        "⚠️  Monitoring failed, but transaction may still succeed:",
+        monitorError,
+      );
+    }
+    logger.log(
+      `You can manually check status at: ${adapter.getExplorerTxUrl(txHash)}`,
+    );
+    return { kind: "executed", quote, txHash, outcome: null };
+  }
+}
+
+/**
+ * Quotes request for a swap from the adapter's (or identity's) address, or a
+ * placeholder in quote-only mode, to `options.receiver` or the configured receiver
+ */
+export function buildQuotesRequest(
+  config: Config,
+  options: CrossChainSwapOptions,
+  adapter: ChainIdentity | null,
+): CrossChainQuotesRequestInput {
+  const origin = requireChain(options.originChain);
+  const destination = requireChain(options.destinationChain);
+  return {
+    originChain: origin.quoteId,
+    destinationChain: destination.quoteId,
+    sellToken: options.sellToken,
+    buyToken: options.buyToken,
+    sellAmount: options.sellAmount,
+    sortQuotesBy: options.sortQuotesBy ?? "price",
+    originAddress: adapter?.address ?? PLACEHOLDER_ADDRESSES[origin.family],
+    destinationAddress:
+      options.receiver ??
+      getConfiguredReceiver(config, destination.family) ??
+      PLACEHOLDER_ADDRESSES[destination.family],
+    slippageBps: options.slippageBps ?? 100,
+    includedBridges: options.includedBridges,
+    excludedBridges: options.excludedBridges,
+    maxNumQuotes: 1,
+    gasPayer: adapter?.gasPayer ?? undefined,
+  };
+}
+
+/**
+ * Print amounts, ETA, steps and origin network fees of a quote
+ */
+export function logQuote(
+  quote: Quote,
+  context: { origin: ChainInfo; sellToken: TokenInfo; buyToken: TokenInfo },
+  logger: SwapLogger = console,
+): void {
+  const { origin, sellToken, buyToken } = context;
+  logger.log("✅ Quote received:");
+  logger.log(`  💰 Send: ${toTokenAmount(sellToken, quote.sellAmount)}`);
+  logger.log(`  💱 Receive: ${toTokenAmount(buyToken, quote.buyAmount)}`);
+  logger.log(
+    `  🛡️  Min Receive: ${toTokenAmount(buyToken, quote.minBuyAmount)}`,
+  );
+  logger.log(`  ⏱️  Estimated Time: ${quote.estimatedTimeSeconds}s`);
+
+  // Display quote steps and bridge provider
+  logger.log(`  🔄 Steps: ${quote.steps.length}`);
+  const bridgeStep = quote.steps.find((step) => step.type === "bridge");
+  if (bridgeStep && bridgeStep.provider) {
+    logger.log(`  🌉 Bridge Provider: ${bridgeStep.provider}`);
+  }
+
+  quote.steps.forEach((step, i) => {
+    if (step.type === "bridge") {
+      logger.log(
+        `    ${i + 1}. Bridge via ${step.provider} (${step.originChainId} → ${step.destinationChainId})`,
+      );
+    } else if (step.type === "swap") {
+      logger.log(`    ${i + 1}. Swap on chain ${step.chainId}`);
+    } else {
+      logger.log(
+        `    ${i + 1}. ${step.type.charAt(0).toUpperCase() + step.type.slice(1)} on chain ${step.chainId}`,
+      );
+    }
+  });
+
+  const gasCosts = quote.gasCosts;
+  if (gasCosts.chainType === "svm") {
+    logger.log(`  ⛽ ${origin.displayName} Transaction Fees:`);
+    logger.log(`    🔹 Base Fee: ${nativeTokenAmount(origin, gasCosts.base)}`);
+    logger.log(
+      `    🔸 Priority Fee: ${nativeTokenAmount(origin, gasCosts.priority ?? "0")}`,
+    );
+    logger.log(`    🔺 Total Fee: ${nativeTokenAmount(origin, gasCosts.total)}`);
+  } else if (gasCosts.chainType === "tvm") {
+    logger.log(`  ⛽ ${origin.displayName} Transaction Fees:`);
+    logger.log(
+      `    🔹 Energy Fee: ${nativeTokenAmount(origin, gasCosts.energyFee)}`,
+    );
+    logger.log(
+      `    🔸 Bandwidth Fee: ${nativeTokenAmount(origin, gasCosts.bandwidthFee)}`,
+    );
+    logger.log(`    🔺 Total Fee: ${nativeTokenAmount(origin, gasCosts.total)}`);
+  }
+}
+
+/**
+ * Watch a cross-chain transaction until it settles, printing status changes,
+ * new transactions and the outcome. Rejects if monitoring fails.
+ */
+export async function monitorCrossChainTransaction(
+  client: CrossChainClient,
+  request: CrossChainStatusRequest,
+  options: { quote?: Quote; logger?: SwapLogger } = {},
+): Promise<MonitorOutcome> {
+  const logger = options.logger ?? console;
+  const watcher = client.watchTransaction(
+    request,
+    // The quote ETA paces polling and sets the monitoring deadline
+    { quote: options.quote },
+  );
+
+  // Only changes are reported, not every poll
+  for await (const event of watcher) {
+    const timestamp = new Date().toLocaleTimeString();
+    if (event.type === "status") {
+      logger.log(`[${timestamp}] 📊 Status: ${event.to}`);
+      if (event.current.bridge) {
+        logger.log(`🌉 Bridge: ${event.current.bridge}`);
+      }
+    } else if (event.type === "transaction") {
+      const tx = event.transaction;
+      const explorerUrl =
+        (tx.txHash && getExplorerTxUrl(tx.chainId, tx.txHash)) ?? tx.txHash;
+      logger.log(
+        `[${timestamp}] 🔗 New transaction on ${tx.chain}: ${explorerUrl}`,
+      );
+    } else if (event.type === "failure" && event.to) {
+      logger.log(
+        `[${timestamp}] ⚠️  Failure (${event.to.status}): ${event.to.reason}`,
+      );
+    }
+  }
+
+  const outcome = await watcher.result;
+  logOutcome(outcome, logger);
+  return outcome;
+}
+
+/**
+ * Print how a monitored cross-chain transaction ended
+ */
+export function logOutcome(
+  outcome: MonitorOutcome,
+  logger: SwapLogger = console,
+): void {
+  logger.log(`\n🏁 Outcome: ${outcome.kind}`);
+
+  if (outcome.kind === "completed") {
+    logger.log("🎉 Cross-chain swap completed successfully!");
+    logger.log("\n📋 Final Transaction Summary:");
+    outcome.status.transactions.forEach((tx, i) => {
+      const date = new Date(tx.timestamp * 1000).toLocaleString();
+      const explorerUrl =
+        (tx.txHash && getExplorerTxUrl(tx.chainId, tx.txHash)) ?? tx.txHash;
+      logger.log(`  ${i + 1}. ${tx.chain}: ${explorerUrl} (${date})`);
+    });
+  } else if (outcome.kind === "refunded") {
+    logger.log("↩️  Bridge failed and the funds were refunded");
+    logger.log(`   Reason: ${outcome.failure.reason}`);
+    if (outcome.refund) {
+      logger.log(
+        `   Refund: ${outcome.refund.settledAmount ?? outcome.refund.amount} of ${outcome.refund.token} on chain ${outcome.refund.chainId}`,
+      );
+    }
+  } else if (outcome.kind === "needsManualAction") {
+    logger.log("🛠️  Bridge failed and the funds need to be recovered manually");
+    logger.log(`   Reason: ${outcome.failure.reason}`);
+    if (outcome.deadline) {
+      logger.log(`   Recover before: ${outcome.deadline.toLocaleString()}`);
+    }
+  } else if (outcome.kind === "timedOut") {
+    logger.log(
+      `⏰ Stopped waiting; last status: ${outcome.status?.status ?? "unknown"}`,
+    );
+  } else {
+    logger.log("❌ Cross-chain swap did not complete successfully");
+    if (outcome.status.failure) {
+      logger.log(`   Reason: ${outcome.status.failure.reason}`);
+    }
+  }
+}
+
+/**
+ * Print an error from `executeCrossChainSwap`, with validation details and the
+ * request's zid for 0x API errors
+ */
+export function logSwapError(
+  error: unknown,
+  logger: SwapLogger = console,
+): void {
+  if (
+    error instanceof ZeroExValidationError ||
+    error instanceof ZeroExRequestValidationError
+  ) {
+    logger.error(`❌ Invalid request: ${error.message}`);
+    error.details.forEach((detail) =>
+      logger.error(`  • ${detail.field}: ${detail.reason}`),
+    );
+  } else if (error instanceof ZeroExAuthError) {
+    logger.error("❌ API key rejected - check ZEROEX_API_KEY");
+  } else if (error instanceof ZeroExRateLimitError) {
+    logger.error("❌ Rate limited by the 0x API - try again shortly");
+  } else if (error instanceof ZeroExApiError) {
+    logger.error(`❌ 0x API error: ${error.message}`);
+    if (error.zid) {
+      logger.error(`  🔎 zid: ${error.zid}`);
+    }
+  } else {
+    logger.error("❌ Error:", error);
+  }
+}
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { Config, DEFAULT_ADDRESSES } from "./config";
+import { DoctorCheck, runDoctor } from "./doctor";
+
+const BASE_CHAIN_ID = "0x2105"; // 8453
+
+function createConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    profile: null,
+    zeroexApiKey: "test-key",
+    rpcUrls: {},
+    keySources: {},
+    ...overrides,
+  };
+}
+
+function findChecks(
+  checks: DoctorCheck[],
+  section: DoctorCheck["section"],
+  name?: string,
+): DoctorCheck[] {
+  return checks.filter(
+    (check) =>
+      check.section === section && (name === undefined || check.name === name),
+  );
+}
+
+describe("runDoctor", () => {
+  // Local RPC stub: `/ok` answers eth_chainId for Base, `/down` returns 503
+  const server = createServer(
+    (request: IncomingMessage, response: ServerResponse) => {
+      if (request.url === "/down") {
+        response.writeHead(503);
+        response.end();
+        return;
+      }
+      response.writeHead(200, { "content-type": "application/json" });
+      response.end(
+        JSON.stringify({ jsonrpc: "2.0", id: 1, result: BASE_CHAIN_ID }),
+      );
+    },
+  );
+  let baseUrl = "";
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function probeBase(urls: string[]) {
+    return runDoctor(createConfig(), {
+      chains: ["base"],
+      env: { RPC_URL_8453: urls.join(",") },
+      timeoutMs: 1_000,
+    });
+  }
+
+  it("passes a reachable RPC endpoint", async () => {
+    const report = await probeBase([`${baseUrl}/ok`]);
+
+    const [check] = findChecks(report.checks, "rpc");
+    assert.equal(check.name, `base ${baseUrl}/ok`);
+    assert.equal(check.status, "pass");
+    assert.equal(report.ok, true);
+  });
+
+  it("fails when the only RPC endpoint returns 5xx", async () => {
+    const report = await probeBase([`${baseUrl}/down`]);
+
+    const [check] = findChecks(report.checks, "rpc");
+    assert.equal(check.status, "fail");
+    assert.match(check.message, /HTTP 503/);
+    assert.equal(report.ok, false);
+  });
+
+  it("fails when the RPC endpoint is unreachable", async () => {
+    // Nothing listens on port 1
+    const report = await probeBase(["http://127.0.0.1:1"]);
+
+    const [check] = findChecks(report.checks, "rpc");
+    assert.equal(check.status, "fail");
+    assert.equal(report.ok, false);
+  });
+
+  it("warns about a dead fallback if another endpoint answers", async () => {
+    const report = await probeBase([`${baseUrl}/ok`, `${baseUrl}/down`]);
+
+    const statuses = findChecks(report.checks, "rpc").map(
+      (check) => check.status,
+    );
+    assert.deepEqual(statuses, ["pass", "warn"]);
+    assert.equal(report.ok, true);
+  });
+
+  it("fails a receiver left at its DEFAULT_ADDRESSES placeholder", async () => {
+    const report = await runDoctor(
+      createConfig({
+        evmReceiverAddress: DEFAULT_ADDRESSES.EVM,
+        tronReceiverAddress: DEFAULT_ADDRESSES.TRON,
+      }),
+      { chains: [] },
+    );
+
+    const [evm] = findChecks(report.checks, "receivers", "EVM receiver");
+    const [tron] = findChecks(report.checks, "receivers", "Tron receiver");
+    assert.equal(evm.status, "fail");
+    assert.match(evm.message, /placeholder/);
+    assert.equal(tron.status, "fail");
+    assert.equal(report.ok, false);
+  });
+
+  it("flags a gas payer identical to the Solana key", async () => {
+    const key = bs58.encode(Keypair.generate().secretKey);
+
+    const report = await runDoctor(
+      createConfig({ solanaPrivateKey: key, solanaGasPayerPrivateKey: key }),
+      { chains: [] },
+    );
+
+    const [check] = findChecks(report.checks, "keys", "Solana gas payer");
+    assert.equal(report.identities.solana, report.identities.solanaGasPayer);
+    assert.equal(check.status, "fail");
+    assert.equal(report.ok, false);
+  });
+
+  it("passes a gas payer separate from the Solana key", async () => {
+    const report = await runDoctor(
+      createConfig({
+        solanaPrivateKey: bs58.encode(Keypair.generate().secretKey),
+        solanaGasPayerPrivateKey: bs58.encode(Keypair.generate().secretKey),
+      }),
+      { chains: [] },
+    );
+
+    const [check] = findChecks(report.checks, "keys", "Solana gas payer");
+    assert.equal(check.status, "pass");
+    assert.equal(report.ok, true);
+  });
+});
@@ -0,0 +1,377 @@
+import { config as dotenv } from "dotenv";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { privateKeyToAddress } from "viem/accounts";
+import { tronHexToBase58 } from "./addresses";
+import {
+  CHAINS,
+  ChainInfo,
+  ChainRef,
+  getChain,
+  getRpcUrls,
+  listChains,
+} from "./chains";
+import { Config, DEFAULT_ADDRESSES, loadConfig, unlockKeys } from "./config";
+import { probeRpcEndpoints, RpcEndpointHealth } from "./rpc";
+
+dotenv({ quiet: true });
+
+export type DoctorStatus = "pass" | "warn" | "fail";
+
+export interface DoctorCheck {
+  section: "config" | "keys" | "receivers" | "rpc";
+  name: string;
+  status: DoctorStatus;
+  message: string;
+}
+
+/** Addresses derived from the configured keys */
+export interface DoctorIdentities {
+  evm?: string;
+  solana?: string;
+  solanaGasPayer?: string;
+  tron?: string;
+}
+
+export interface DoctorReport {
+  /** `config.profile`, `null` for environment variables */
+  profile: string | null;
+  identities: DoctorIdentities;
+  checks: DoctorCheck[];
+  /** `false` if any check failed; warnings do not count */
+  ok: boolean;
+}
+
+export interface DoctorOptions {
+  /** Chains whose RPC endpoints are probed; defaults to `getDoctorChains()` */
+  chains?: (ChainRef | ChainInfo)[];
+  /** Per-endpoint probe timeout (default 5s) */
+  timeoutMs?: number;
+  env?: NodeJS.ProcessEnv;
+}
+
+/** Chains the example scripts use; their RPC endpoints are always probed */
+const EXAMPLE_CHAINS = [
+  CHAINS.base,
+  CHAINS.arbitrum,
+  CHAINS.solana,
+  CHAINS.tron,
+];
+
+/**
+ * Chains to probe: those the examples use, registered chains with configured
+ * RPC URLs and chains only known through `RPC_URL_<chainId>`
+ */
+export function getDoctorChains(
+  env: NodeJS.ProcessEnv = process.env,
+): ChainRef[] {
+  const chains = new Set<ChainRef>(EXAMPLE_CHAINS.map((chain) => chain.name));
+  for (const chain of listChains()) {
+    const urls = getRpcUrls(chain, env);
+    if (urls.length !== 1 || urls[0] !== chain.defaultRpcUrl) {
+      chains.add(chain.name);
+    }
+  }
+  for (const variable of Object.keys(env)) {
+    const match = /^RPC_URL_(\d+)$/.exec(variable);
+    if (match && env[variable] && !getChain(Number(match[1]))) {
+      chains.add(Number(match[1]));
+    }
+  }
+  return [...chains];
+}
+
+/**
+ * Decode every configured key, derive its address and cross-check the
+ * configuration: distinct Solana signer and gas payer, receivers that are not
+ * placeholders, reachable RPC endpoints
+ */
+export async function runDoctor(
+  config: Config,
+  options: DoctorOptions = {},
+): Promise<DoctorReport> {
+  const env = options.env ?? process.env;
+  const checks: DoctorCheck[] = [];
+  const identities: DoctorIdentities = {};
+  const {
+    evmPrivateKey,
+    solanaPrivateKey,
+    solanaGasPayerPrivateKey,
+    tronPrivateKey,
+  } = config;
+
+  if (!evmPrivateKey && !solanaPrivateKey && !tronPrivateKey) {
+    checks.push({
+      section: "keys",
+      name: "Private keys",
+      status: "warn",
+      message:
+        "No private keys configured - the examples run in quote-only mode",
+    });
+  }
+
+  if (evmPrivateKey) {
+    const check = deriveKey("EVM key", () =>
+      privateKeyToAddress(withHexPrefix(evmPrivateKey)),
+    );
+    identities.evm = check.address;
+    checks.push(check.result);
+  }
+
+  if (solanaPrivateKey) {
+    const check = deriveKey("Solana key", () =>
+      deriveSolanaAddress(solanaPrivateKey),
+    );
+    identities.solana = check.address;
+    checks.push(check.result);
+  }
+
+  if (solanaGasPayerPrivateKey) {
+    const check = deriveKey("Solana gas payer key", () =>
+      deriveSolanaAddress(solanaGasPayerPrivateKey),
+    );
+    identities.solanaGasPayer = check.address;
+    checks.push(check.result);
+
+    if (!solanaPrivateKey) {
+      checks.push({
+        section: "keys",
+        name: "Solana gas payer",
+        status: "warn",
+        message: "A gas payer is configured without a Solana key to pay for",
+      });
+    } else if (
+      identities.solana &&
+      identities.solana === identities.solanaGasPayer
+    ) {
+      checks.push({
+        section: "keys",
+        name: "Solana gas payer",
+        status: "fail",
+        message:
+          "The gas payer is the same account as the Solana key - use a separate key",
+      });
+    } else if (identities.solana && identities.solanaGasPayer) {
+      checks.push({
+        section: "keys",
+        name: "Solana gas payer",
+        status: "pass",
+        message: "Gas payer and Solana key are different accounts",
+      });
+    }
+  }
+
+  if (tronPrivateKey) {
+    const check = deriveKey("Tron key", () =>
+      tronHexToBase58(privateKeyToAddress(withHexPrefix(tronPrivateKey))),
+    );
+    identities.tron = check.address;
+    checks.push(check.result);
+  }
+
+  const receivers = [
+    ["EVM receiver", config.evmReceiverAddress, DEFAULT_ADDRESSES.EVM],
+    ["Solana receiver", config.solanaReceiverAddress, DEFAULT_ADDRESSES.SOLANA],
+    ["Tron receiver", config.tronReceiverAddress, DEFAULT_ADDRESSES.TRON],
+  ] as const;
+  for (const [name, address, placeholder] of receivers) {
+    if (!address) {
+      continue;
+    }
+    const isPlaceholder =
+      name === "EVM receiver"
+        ? address.toLowerCase() === placeholder.toLowerCase()
+        : address === placeholder;
+    checks.push({
+      section: "receivers",
+      name,
+      status: isPlaceholder ? "fail" : "pass",
+      message: isPlaceholder
+        ? `${address} is the DEFAULT_ADDRESSES placeholder - funds sent there are not yours`
+        : address,
+    });
+  }
+
+  const chains = options.chains ?? getDoctorChains(env);
+  const probes = await Promise.all(
+    chains.map(async (chain) => {
+      try {
+        return await probeRpcEndpoints(chain, {
+          env,
+          timeoutMs: options.timeoutMs ?? 5_000,
+        });
+      } catch (error) {
+        return error instanceof Error ? error : new Error(String(error));
+      }
+    }),
+  );
+  probes.forEach((probe, index) => {
+    const chain = chains[index];
+    const chainName =
+      typeof chain === "object"
+        ? chain.name
+        : (getChain(chain)?.name ?? String(chain));
+    if (probe instanceof Error) {
+      checks.push({
+        section: "rpc",
+        name: chainName,
+        status: "fail",
+        message: probe.message,
+      });
+      return;
+    }
+    const anyReachable = probe.some(isReachable);
+    for (const endpoint of probe) {
+      const reachable = isReachable(endpoint);
+      checks.push({
+        section: "rpc",
+        name: `${chainName} ${redactUrl(endpoint.url)}`,
+        // One dead fallback is a warning as long as another endpoint answers
+        status: reachable ? "pass" : anyReachable ? "warn" : "fail",
+        message: reachable
+          ? `${endpoint.lastLatencyMs}ms`
+          : (endpoint.lastError ?? "unreachable"),
+      });
+    }
+  });
+
+  return {
+    profile: config.profile,
+    identities,
+    checks,
+    ok: checks.every((check) => check.status !== "fail"),
+  };
+}
+
+function isReachable(endpoint: RpcEndpointHealth): boolean {
+  return endpoint.consecutiveFailures === 0 && endpoint.lastSuccessAt !== null;
+}
+
+function deriveKey(
+  name: string,
+  derive: () => string,
+): { address?: string; result: DoctorCheck } {
+  try {
+    const address = derive();
+    return {
+      address,
+      result: { section: "keys", name, status: "pass", message: address },
+    };
+  } catch (error) {
+    return {
+      result: {
+        section: "keys",
+        name,
+        status: "fail",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+function withHexPrefix(key: string): `0x${string}` {
+  return (key.startsWith("0x") ? key : `0x${key}`) as `0x${string}`;
+}
+
+function deriveSolanaAddress(secretKey: string): string {
+  const bytes = bs58.decode(secretKey);
+  if (bytes.length === 32) {
+    throw new Error(
+      "Decodes to 32 bytes (a seed or public key); Keypair.fromSecretKey needs the 64-byte secret key",
+    );
+  }
+  if (bytes.length !== 64) {
+    throw new Error(
+      `Decodes to ${bytes.length} bytes; Keypair.fromSecretKey needs 64`,
+    );
+  }
+  // Throws if the public half does not belong to the private half
+  return Keypair.fromSecretKey(bytes).publicKey.toBase58();
+}
+
+/**
+ * Hide long path segments and query values, which usually hold RPC provider API keys
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.pathname = parsed.pathname
+      .split("/")
+      .map((segment) => (segment.length >= 20 ? "***" : segment))
+      .join("/");
+    for (const key of [...parsed.searchParams.keys()]) {
+      parsed.searchParams.set(key, "***");
+    }
+    return parsed.toString().replace(/%2A/g, "*");
+  } catch {
+    return url;
+  }
+}
+
+const STATUS_ICONS: Record<DoctorStatus, string> = {
+  pass: "✅",
+  warn: "⚠️ ",
+  fail: "❌",
+};
+
+const SECTION_TITLES: Record<DoctorCheck["section"], string> = {
+  config: "Configuration",
+  keys: "Keys and derived addresses",
+  receivers: "Receivers",
+  rpc: "RPC endpoints",
+};
+
+/**
+ * Check the configuration and print a pass/fail report; exits with 1 on failures
+ */
+async function doctor() {
+  console.log("🩺 Configuration Doctor");
+  console.log("=======================");
+
+  let config: Config;
+  try {
+    config = await unlockKeys(loadConfig());
+  } catch (error) {
+    console.log(`\n${SECTION_TITLES.config}:`);
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(
+      `  ${STATUS_ICONS.fail} ${message.replace(/\n/g, "\n     ")}`,
+    );
+    console.log("\n❌ Doctor found problems");
+    process.exit(1);
+  }
+
+  console.log(
+    `\n📄 Configuration: ${config.profile ? `profile "${config.profile}"` : "environment variables"}`,
+  );
+  const report = await runDoctor(config);
+
+  for (const section of ["keys", "receivers", "rpc"] as const) {
+    const checks = report.checks.filter((check) => check.section === section);
+    if (checks.length === 0) {
+      continue;
+    }
+    console.log(`\n${SECTION_TITLES[section]}:`);
+    for (const check of checks) {
+      console.log(
+        `  ${STATUS_ICONS[check.status]} ${check.name}: ${check.message}`,
+      );
+    }
+  }
+
+  const count = (status: DoctorStatus) =>
+    report.checks.filter((check) => check.status === status).length;
+  console.log(
+    `\n${report.ok ? "✅ All checks passed" : "❌ Doctor found problems"} (${count("pass")} passed, ${count("warn")} warnings, ${count("fail")} failed)`,
+  );
+  if (!report.ok) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  doctor().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
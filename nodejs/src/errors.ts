@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { ApiErrorDetail, ApiErrorResponseSchema } from "./schemas";
+
+interface ZeroExApiErrorOptions {
+  status: number;
+  code?: string | null;
+  details?: ApiErrorDetail[];
+  zid?: string | null;
+  url: string;
+  retryable?: boolean;
+  retryAfterMs?: number | null;
+  body?: string;
+}
+
+/**
+ * Base class for every error returned by the 0x API
+ */
+export class ZeroExApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly details: ApiErrorDetail[];
+  readonly zid: string | null;
+  readonly url: string;
+  readonly retryable: boolean;
+  /** Delay requested by the server through the Retry-After header */
+  readonly retryAfterMs: number | null;
+  readonly body: string;
+
+  constructor(message: string, options: ZeroExApiErrorOptions) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code ?? null;
+    this.details = options.details ?? [];
+    this.zid = options.zid ?? null;
+    this.url = options.url;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.body = options.body ?? "";
+  }
+}
+
+/**
+ * The request was rejected as invalid (400 / 422)
+ */
+export class ZeroExValidationError extends ZeroExApiError {}
+
+/**
+ * The API key is missing, invalid or not allowed to call this endpoint (401 / 403)
+ */
+export class ZeroExAuthError extends ZeroExApiError {}
+
+/**
+ * Too many requests for this API key (429)
+ */
+export class ZeroExRateLimitError extends ZeroExApiError {}
+
+/**
+ * The API failed to handle the request (5xx)
+ */
+export class ZeroExServerError extends ZeroExApiError {}
+
+/**
+ * The API responded successfully but the body did not match the expected schema
+ */
+export class ZeroExSchemaError extends ZeroExApiError {
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(
+    message: string,
+    options: ZeroExApiErrorOptions & { issues: z.core.$ZodIssue[] },
+  ) {
+    super(message, options);
+    this.issues = options.issues;
+  }
+}
+
+/**
+ * The request failed client-side checks; `details` lists every invalid field
+ */
+export class ZeroExRequestValidationError extends Error {
+  readonly details: ApiErrorDetail[];
+
+  constructor(context: string, details: ApiErrorDetail[]) {
+    super(
+      `${context}: ${details.map((detail) => `${detail.field}: ${detail.reason}`).join("; ")}`,
+    );
+    this.name = new.target.name;
+    this.details = details;
+  }
+}
+
+/**
+ * The request never produced a response (DNS failure, connection reset, ...)
+ */
+export class ZeroExNetworkError extends Error {
+  readonly url: string;
+  readonly cause: unknown;
+  readonly retryable = true;
+
+  constructor(url: string, cause: unknown) {
+    super(
+      `Request to ${url} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+    );
+    this.name = new.target.name;
+    this.url = url;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The operation was cancelled through an AbortSignal
+ */
+export class ZeroExAbortError extends Error {
+  /** The abort reason given to the signal, if any */
+  readonly reason: unknown;
+
+  constructor(message = "The operation was aborted", reason?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.reason = reason;
+  }
+}
+
+/**
+ * The operation was cancelled because it exceeded its `timeoutMs`
+ */
+export class ZeroExTimeoutError extends ZeroExAbortError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`The operation timed out after ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Build the matching error class for a non-2xx API response
+ */
+export function createApiError(
+  context: string,
+  response: {
+    status: number;
+    statusText: string;
+    url: string;
+    body: string;
+    retryAfter?: string | null;
+  },
+): ZeroExApiError {
+  let parsedBody: unknown = null;
+  try {
+    parsedBody = JSON.parse(response.body);
+  } catch {
+    // Not JSON (e.g. a gateway error page) - keep the raw body only
+  }
+
+  const apiError = ApiErrorResponseSchema.safeParse(parsedBody);
+  const options: ZeroExApiErrorOptions = {
+    status: response.status,
+    code: apiError.success ? apiError.data.name : null,
+    details: apiError.success ? apiError.data.data?.details : [],
+    zid: apiError.success ? apiError.data.data?.zid : null,
+    url: response.url,
+    retryable: RETRYABLE_STATUSES.includes(response.status),
+    retryAfterMs: parseRetryAfter(response.retryAfter),
+    body: response.body,
+  };
+
+  const message = `${context}: ${response.status} ${response.statusText}${
+    apiError.success ? ` - ${apiError.data.message}` : ""
+  }`;
+
+  if (response.status === 400 || response.status === 422) {
+    return new ZeroExValidationError(message, options);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new ZeroExAuthError(message, options);
+  }
+  if (response.status === 429) {
+    return new ZeroExRateLimitError(message, options);
+  }
+  if (response.status >= 500) {
+    return new ZeroExServerError(message, options);
+  }
+  return new ZeroExApiError(message, options);
+}
+
+/**
+ * Convert a Retry-After header (delay in seconds or an HTTP date) to milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  PassphraseProvider,
+  vaultKeySources,
+  writeVault,
+} from "./keySources";
+
+const KEY = `0x${"11".repeat(32)}`;
+
+describe("vaultKeySources", () => {
+  let dir = "";
+  let path = "";
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "vault-"));
+    path = join(dir, "keys.vault.json");
+    await writeVault(path, { evm: KEY, tron: KEY.slice(2) }, "right");
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  // Every call stands for one unlock, with its own provider
+  function unlock(passphrase: string): {
+    provider: PassphraseProvider;
+    asked: () => number;
+  } {
+    let count = 0;
+    return {
+      provider: async () => {
+        count++;
+        return passphrase;
+      },
+      asked: () => count,
+    };
+  }
+
+  it("decrypts once per unlock", async () => {
+    const sources = vaultKeySources(path);
+    const { provider, asked } = unlock("right");
+
+    assert.equal(await sources.evm.load(provider), KEY);
+    assert.equal(await sources.tron.load(provider), KEY.slice(2));
+    assert.equal(asked(), 1);
+  });
+
+  it("does not reuse keys decrypted by an earlier unlock", async () => {
+    const sources = vaultKeySources(path);
+
+    assert.equal(await sources.evm.load(unlock("right").provider), KEY);
+    await assert.rejects(
+      sources.evm.load(unlock("wrong").provider),
+      /Wrong vault passphrase/,
+    );
+  });
+
+  it("does not cache a failed unlock", async () => {
+    const sources = vaultKeySources(path);
+    const wrong = unlock("wrong").provider;
+
+    await assert.rejects(sources.evm.load(wrong), /Wrong vault passphrase/);
+    assert.equal(await sources.evm.load(unlock("right").provider), KEY);
+  });
+
+  it("asks again after a wrong passphrase within one unlock", async () => {
+    const sources = vaultKeySources(path);
+    const answers = ["wrong", "right"];
+    const provider: PassphraseProvider = async () => answers.shift()!;
+
+    await assert.rejects(sources.evm.load(provider), /Wrong vault passphrase/);
+    assert.equal(await sources.evm.load(provider), KEY);
+  });
+});
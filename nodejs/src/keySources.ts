@@ -0,0 +1,431 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  pbkdf2,
+  randomBytes,
+  scrypt,
+  ScryptOptions,
+  timingSafeEqual,
+} from "crypto";
+import { readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { resolve } from "path";
+import bs58 from "bs58";
+import { keccak256 } from "viem";
+import { z } from "zod";
+
+/** Keys a configuration can hold, one per signer */
+export type KeyName = "evm" | "solana" | "solanaGasPayer" | "tron";
+
+export const KEY_NAMES: readonly KeyName[] = [
+  "evm",
+  "solana",
+  "solanaGasPayer",
+  "tron",
+];
+
+/** Passphrase for an encrypted file; called at most once per file and unlock */
+export type PassphraseProvider = (path: string) => Promise<string>;
+
+/**
+ * Where a private key comes from. Keys are decrypted on `load` and only ever
+ * returned; nothing is written to disk or the environment.
+ */
+export interface KeySource {
+  /** Shown in prompts and errors; never contains key material */
+  readonly description: string;
+  /** The key in the format of the matching `*_PRIVATE_KEY` variable, `undefined` if the source has none */
+  load(passphrase: PassphraseProvider): Promise<string | undefined>;
+}
+
+const HexSchema = z
+  .string()
+  .regex(/^(0x)?[0-9a-fA-F]*$/, "Expected a hex string")
+  .transform((value) => Buffer.from(value.replace(/^0x/, ""), "hex"));
+
+const ScryptParamsSchema = z.object({
+  n: z.number().int().positive(),
+  r: z.number().int().positive(),
+  p: z.number().int().positive(),
+  dklen: z.number().int().positive(),
+  salt: HexSchema,
+});
+
+const Pbkdf2ParamsSchema = z.object({
+  c: z.number().int().positive(),
+  dklen: z.number().int().positive(),
+  prf: z.literal("hmac-sha256"),
+  salt: HexSchema,
+});
+
+const KeystoreCryptoSchema = z.discriminatedUnion("kdf", [
+  z.object({
+    kdf: z.literal("scrypt"),
+    kdfparams: ScryptParamsSchema,
+    cipher: z.literal("aes-128-ctr"),
+    cipherparams: z.object({ iv: HexSchema }),
+    ciphertext: HexSchema,
+    mac: HexSchema,
+  }),
+  z.object({
+    kdf: z.literal("pbkdf2"),
+    kdfparams: Pbkdf2ParamsSchema,
+    cipher: z.literal("aes-128-ctr"),
+    cipherparams: z.object({ iv: HexSchema }),
+    ciphertext: HexSchema,
+    mac: HexSchema,
+  }),
+]);
+
+/**
+ * Ethereum V3 JSON keystore, as written by geth, Foundry (`cast wallet new`) or MetaMask
+ */
+export const KeystoreV3Schema = z
+  .object({
+    version: z.literal(3),
+    crypto: KeystoreCryptoSchema.optional(),
+    // Older geth versions capitalize the field
+    Crypto: KeystoreCryptoSchema.optional(),
+  })
+  .refine((keystore) => keystore.crypto ?? keystore.Crypto, {
+    message: "Missing crypto section",
+  })
+  .transform((keystore) => keystore.crypto ?? keystore.Crypto!);
+
+/**
+ * Solana CLI keypair file (`~/.config/solana/id.json`): the 64-byte secret key as a JSON array
+ */
+const SolanaKeypairFileSchema = z
+  .array(z.number().int().min(0).max(255))
+  .length(64, "Expected 64 bytes");
+
+const VaultKeysSchema = z.strictObject({
+  evm: z.string().optional(),
+  solana: z.string().optional(),
+  solanaGasPayer: z.string().optional(),
+  tron: z.string().optional(),
+});
+
+/** Decrypted vault contents: raw keys in the format of the `*_PRIVATE_KEY` variables */
+export type VaultKeys = z.infer<typeof VaultKeysSchema>;
+
+/**
+ * Passphrase-encrypted file holding keys for every chain family
+ * (scrypt key derivation, AES-256-GCM)
+ */
+export const VaultSchema = z.object({
+  version: z.literal(1),
+  kdf: z.literal("scrypt"),
+  kdfparams: ScryptParamsSchema,
+  cipher: z.literal("aes-256-gcm"),
+  iv: HexSchema,
+  tag: HexSchema,
+  ciphertext: HexSchema,
+});
+
+const VAULT_SCRYPT_PARAMS = { n: 2 ** 18, r: 8, p: 1, dklen: 32 };
+
+function deriveScrypt(
+  passphrase: string,
+  params: Omit<z.infer<typeof ScryptParamsSchema>, "salt"> & {
+    salt: Uint8Array;
+  },
+): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    // Node's 32 MiB default is too small for the usual n = 2^18
+    maxmem: 256 * params.n * params.r,
+  };
+  return new Promise((resolve, reject) =>
+    scrypt(
+      passphrase.normalize("NFKC"),
+      params.salt,
+      params.dklen,
+      options,
+      (error, key) => (error ? reject(error) : resolve(key)),
+    ),
+  );
+}
+
+function derivePbkdf2(
+  passphrase: string,
+  params: z.infer<typeof Pbkdf2ParamsSchema>,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    pbkdf2(
+      passphrase.normalize("NFKC"),
+      params.salt,
+      params.c,
+      params.dklen,
+      "sha256",
+      (error, key) => (error ? reject(error) : resolve(key)),
+    ),
+  );
+}
+
+async function readJson(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Cannot read ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+function parseFile<T extends z.ZodType>(
+  schema: T,
+  content: unknown,
+  description: string,
+): z.output<T> {
+  const result = schema.safeParse(content);
+  if (!result.success) {
+    throw new Error(
+      `Invalid ${description}: ${result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ")}`,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Decrypt a V3 keystore to its `0x`-prefixed private key
+ */
+export async function decryptKeystore(
+  keystore: unknown,
+  passphrase: string,
+): Promise<`0x${string}`> {
+  const crypto = parseFile(KeystoreV3Schema, keystore, "V3 keystore");
+  const derivedKey =
+    crypto.kdf === "scrypt"
+      ? await deriveScrypt(passphrase, crypto.kdfparams)
+      : await derivePbkdf2(passphrase, crypto.kdfparams);
+
+  const mac = Buffer.from(
+    keccak256(
+      Buffer.concat([derivedKey.subarray(16, 32), crypto.ciphertext]),
+    ).slice(2),
+    "hex",
+  );
+  if (mac.length !== crypto.mac.length || !timingSafeEqual(mac, crypto.mac)) {
+    throw new Error("Wrong keystore passphrase");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    crypto.cipherparams.iv,
+  );
+  const privateKey = Buffer.concat([
+    decipher.update(crypto.ciphertext),
+    decipher.final(),
+  ]);
+  return `0x${privateKey.toString("hex")}`;
+}
+
+/**
+ * Encrypt keys into a vault; the result is safe to write to disk
+ */
+export async function encryptVault(
+  keys: VaultKeys,
+  passphrase: string,
+): Promise<z.input<typeof VaultSchema>> {
+  const kdfparams = { ...VAULT_SCRYPT_PARAMS, salt: randomBytes(32) };
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    "aes-256-gcm",
+    await deriveScrypt(passphrase, kdfparams),
+    iv,
+  );
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(VaultKeysSchema.parse(keys)), "utf8"),
+    cipher.final(),
+  ]);
+  return {
+    version: 1,
+    kdf: "scrypt",
+    kdfparams: { ...kdfparams, salt: kdfparams.salt.toString("hex") },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    tag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+  };
+}
+
+/**
+ * Decrypt a vault written by `encryptVault`
+ */
+export async function decryptVault(
+  vault: unknown,
+  passphrase: string,
+): Promise<VaultKeys> {
+  const parsed = parseFile(VaultSchema, vault, "key vault");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    await deriveScrypt(passphrase, parsed.kdfparams),
+    parsed.iv,
+  );
+  decipher.setAuthTag(parsed.tag);
+
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([
+      decipher.update(parsed.ciphertext),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    // GCM authentication fails for a wrong passphrase and for tampered files alike
+    throw new Error("Wrong vault passphrase, or the vault file is corrupted");
+  }
+  return VaultKeysSchema.parse(JSON.parse(plaintext));
+}
+
+/**
+ * Write a vault with `keys` to `path`, readable by the owner only
+ */
+export async function writeVault(
+  path: string,
+  keys: VaultKeys,
+  passphrase: string,
+): Promise<void> {
+  const vault = await encryptVault(keys, passphrase);
+  await writeFile(expandPath(path), `${JSON.stringify(vault, null, 2)}\n`, {
+    mode: 0o600,
+  });
+}
+
+/** Resolve `~/` and relative paths (against `baseDir`) */
+export function expandPath(path: string, baseDir = process.cwd()): string {
+  return path.startsWith("~/")
+    ? resolve(homedir(), path.slice(2))
+    : resolve(baseDir, path);
+}
+
+/**
+ * A key given directly, e.g. from `EVM_PRIVATE_KEY`
+ */
+export function rawKeySource(key: string, description: string): KeySource {
+  return { description, load: async () => key };
+}
+
+/**
+ * Private key from a V3 keystore. Tron keys are returned without the `0x` prefix.
+ */
+export function keystoreKeySource(
+  path: string,
+  format: "evm" | "tron" = "evm",
+): KeySource {
+  const file = expandPath(path);
+  return {
+    description: `keystore ${file}`,
+    load: async (passphrase) => {
+      const key = await decryptKeystore(
+        await readJson(file),
+        await passphrase(file),
+      );
+      return format === "tron" ? key.slice(2) : key;
+    },
+  };
+}
+
+/**
+ * Secret key from a Solana CLI keypair file, base58-encoded like `SOLANA_PRIVATE_KEY`.
+ * These files are not encrypted; keep them readable by the owner only.
+ */
+export function solanaKeypairKeySource(path: string): KeySource {
+  const file = expandPath(path);
+  return {
+    description: `Solana keypair ${file}`,
+    load: async () => {
+      const secretKey = parseFile(
+        SolanaKeypairFileSchema,
+        await readJson(file),
+        `Solana keypair file ${file}`,
+      );
+      return bs58.encode(Uint8Array.from(secretKey));
+    },
+  };
+}
+
+/**
+ * One source per key of a vault. Within one unlock they share a single
+ * decryption, so the passphrase is asked for and the vault decrypted once.
+ * Decrypted keys are not kept past that unlock, and a failure is not cached.
+ */
+export function vaultKeySources(path: string): Record<KeyName, KeySource> {
+  const file = expandPath(path);
+  // Each unlock passes its own provider, which scopes the decryption to it
+  const unlocks = new WeakMap<PassphraseProvider, Promise<VaultKeys>>();
+  const open = (passphrase: PassphraseProvider) => {
+    let keys = unlocks.get(passphrase);
+    if (!keys) {
+      keys = readJson(file).then(async (vault) =>
+        decryptVault(vault, await passphrase(file)),
+      );
+      keys.catch(() => unlocks.delete(passphrase));
+      unlocks.set(passphrase, keys);
+    }
+    return keys;
+  };
+
+  return Object.fromEntries(
+    KEY_NAMES.map((name) => [
+      name,
+      {
+        description: `vault ${file} (${name})`,
+        load: async (passphrase: PassphraseProvider) =>
+          (await open(passphrase))[name],
+      },
+    ]),
+  ) as Record<KeyName, KeySource>;
+}
+
+/**
+ * Ask for a passphrase on the terminal without echoing it. The passphrase is
+ * only held in memory; rejects when stdin is not a terminal.
+ */
+export function promptPassphrase(prompt: string): Promise<string> {
+  const { stdin, stderr } = process;
+  if (!stdin.isTTY) {
+    return Promise.reject(
+      new Error(
+        `Cannot ask "${prompt.trim()}": stdin is not a terminal. Pass a passphrase provider to unlockKeys instead`,
+      ),
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    let passphrase = "";
+    const finish = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stderr.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n" || char === "\u0004") {
+          finish();
+          resolve(passphrase);
+          return;
+        }
+        if (char === "\u0003") {
+          finish();
+          reject(new Error("Passphrase prompt cancelled"));
+          return;
+        }
+        passphrase =
+          char === "\u007f" || char === "\b"
+            ? passphrase.slice(0, -1)
+            : passphrase + char;
+      }
+    };
+
+    stderr.write(prompt);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.on("data", onData);
+    stdin.resume();
+  });
+}
@@ -0,0 +1,97 @@
+import { BigIntAmounts } from "./amounts";
+import {
+  CrossChainStatusResponse,
+  LenientCrossChainStatusResponse,
+} from "./schemas";
+
+/** Status response in any schema and amount mode */
+export type AnyStatusResponse =
+  | LenientCrossChainStatusResponse
+  | BigIntAmounts<LenientCrossChainStatusResponse>;
+
+type Failure<S extends AnyStatusResponse> = NonNullable<
+  S["failure"]
+>;
+
+/**
+ * How a monitored cross-chain transaction ended.
+ * `S` is the status type of the client's schema and amount modes.
+ */
+export type MonitorOutcome<
+  S extends AnyStatusResponse = CrossChainStatusResponse,
+> =
+  | { kind: "completed"; status: S }
+  | {
+      kind: "refunded";
+      status: S;
+      failure: Failure<S>;
+      refund: Failure<S>["recovery"];
+    }
+  | {
+      kind: "needsManualAction";
+      status: S;
+      failure: Failure<S>;
+      recovery: Failure<S>["recovery"];
+      /** Recovery must happen before this date, when the API provides one */
+      deadline: Date | null;
+    }
+  | { kind: "reverted"; status: S }
+  | {
+      kind: "failed";
+      status: S;
+      failure: Failure<S> | null;
+    }
+  | {
+      kind: "timedOut";
+      /** Last status seen before the deadline, if any poll succeeded */
+      status: S | null;
+    };
+
+/**
+ * Map a status to its outcome, or `null` while the transaction (or its refund) is still in progress.
+ * Statuses unknown to this client are treated as in progress.
+ */
+export function resolveOutcome<S extends AnyStatusResponse>(
+  status: S,
+): MonitorOutcome<S> | null {
+  switch (status.status) {
+    case "bridge_filled":
+      return { kind: "completed", status };
+    case "origin_tx_reverted":
+      return { kind: "reverted", status };
+    case "bridge_failed":
+      break;
+    default:
+      return null;
+  }
+
+  const failure = status.failure as Failure<S> | null;
+  switch (failure?.status) {
+    case "refund_pending":
+      // Keep following the failed bridge until the refund settles
+      return null;
+    case "refund_succeeded":
+      return { kind: "refunded", status, failure, refund: failure.recovery };
+    case "manual_action_required": {
+      // Deadlines are unix timestamps in seconds, like transaction timestamps
+      const deadline = failure.recovery?.deadline ?? null;
+      return {
+        kind: "needsManualAction",
+        status,
+        failure,
+        recovery: failure.recovery,
+        deadline: deadline !== null ? new Date(deadline * 1000) : null,
+      };
+    }
+    default:
+      return { kind: "failed", status, failure: failure ?? null };
+  }
+}
+
+/**
+ * Whether a status can no longer change: completed, reverted or refunded
+ */
+export function isSettled(status: AnyStatusResponse): boolean {
+  const kind = resolveOutcome(status)?.kind;
+  return kind === "completed" || kind === "reverted" || kind === "refunded";
+}
@@ -0,0 +1,107 @@
+import { LenientCrossChainStatusResponse, LenientQuote } from "./schemas";
+
+export interface PollingOptions {
+  /** Interval while the origin transaction is still pending */
+  originIntervalMs: number;
+  /** Interval during the bridge phase when no ETA is known */
+  defaultIntervalMs: number;
+  /** Bounds for the interval during the bridge phase */
+  minIntervalMs: number;
+  maxIntervalMs: number;
+}
+
+export const DEFAULT_POLLING_OPTIONS: PollingOptions = {
+  originIntervalMs: 2_000,
+  defaultIntervalMs: 5_000,
+  minIntervalMs: 3_000,
+  maxIntervalMs: 30_000,
+};
+
+/** Monitoring deadline used when neither `timeoutMs` nor a quote ETA is available */
+export const DEFAULT_MONITOR_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Expected bridge duration of a quote, preferring the bridge steps' own estimates
+ */
+export function getEstimatedTimeSeconds(quote: LenientQuote): number | null {
+  const bridgeEstimates = quote.steps.flatMap((step) =>
+    step.type === "bridge" && step.estimatedTimeSeconds !== null
+      ? [step.estimatedTimeSeconds]
+      : [],
+  );
+  if (bridgeEstimates.length > 0) {
+    return bridgeEstimates.reduce((total, seconds) => total + seconds, 0);
+  }
+  return quote.estimatedTimeSeconds;
+}
+
+/**
+ * Decides how long to wait between status polls.
+ * Polls quickly while the origin transaction is pending, then paces bridge polls
+ * on the quote ETA and backs off once the bridge is overdue.
+ */
+export class PollingSchedule {
+  private readonly options: PollingOptions;
+  private readonly estimatedTimeMs: number | null;
+  private bridgeStartedAt: number | null = null;
+  private overduePolls = 0;
+
+  constructor(quote?: LenientQuote, options: Partial<PollingOptions> = {}) {
+    this.options = { ...DEFAULT_POLLING_OPTIONS, ...options };
+    const estimatedTimeSeconds = quote ? getEstimatedTimeSeconds(quote) : null;
+    this.estimatedTimeMs =
+      estimatedTimeSeconds !== null ? estimatedTimeSeconds * 1000 : null;
+  }
+
+  /**
+   * Wall-clock budget for the whole monitoring session
+   */
+  get deadlineMs(): number {
+    if (this.estimatedTimeMs === null) {
+      return DEFAULT_MONITOR_TIMEOUT_MS;
+    }
+    // Leave room for slow fills without giving up on fast bridges too early
+    return Math.max(DEFAULT_MONITOR_TIMEOUT_MS, this.estimatedTimeMs * 4);
+  }
+
+  /**
+   * Delay before the next poll, given the last observed status (`null` if the poll failed)
+   */
+  nextDelay(
+    status: LenientCrossChainStatusResponse["status"] | null,
+    now = Date.now(),
+  ): number {
+    const { originIntervalMs, defaultIntervalMs, minIntervalMs, maxIntervalMs } =
+      this.options;
+
+    if (status === null) {
+      return defaultIntervalMs;
+    }
+    if (status === "origin_tx_pending" || status === "unknown") {
+      return originIntervalMs;
+    }
+    if (this.estimatedTimeMs === null) {
+      return defaultIntervalMs;
+    }
+
+    this.bridgeStartedAt ??= now;
+    const remainingMs = this.estimatedTimeMs - (now - this.bridgeStartedAt);
+
+    if (remainingMs > 0) {
+      // A handful of polls over the expected duration, landing on the ETA
+      const interval = clamp(this.estimatedTimeMs / 4, minIntervalMs, maxIntervalMs);
+      return Math.max(minIntervalMs, Math.min(interval, remainingMs));
+    }
+
+    // Overdue: start at the minimum interval and back off exponentially
+    return clamp(
+      minIntervalMs * 1.5 ** this.overduePolls++,
+      minIntervalMs,
+      maxIntervalMs,
+    );
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
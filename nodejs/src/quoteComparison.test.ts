@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CHAINS } from "./chains";
+import {
+  compareQuotes,
+  QuoteComparisonContext,
+  renderQuoteCsv,
+  renderQuoteTable,
+  toQuoteJson,
+} from "./quoteComparison";
+import { Quote } from "./schemas";
+import { TokenRegistry } from "./tokens";
+
+const WETH_BASE = "0x4200000000000000000000000000000000000006";
+const USDC_ARB = "0xaf88d065e77c8cc2239327c5edb3a432268e5831";
+const CONTEXT: QuoteComparisonContext = {
+  origin: CHAINS.base,
+  destination: CHAINS.arbitrum,
+  buyToken: {
+    chain: "arbitrum",
+    address: USDC_ARB,
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    isNative: false,
+    isWrapped: false,
+  },
+  tokens: new TokenRegistry(),
+};
+
+// A Base → Arbitrum bridge quote; gas price in wei, gas limit 100000
+function quote(
+  buyAmount: string,
+  gasPrice: string | null,
+  estimatedTimeSeconds: number | null,
+  provider = "across",
+): Quote {
+  return {
+    sellAmount: "1000000000000000",
+    buyAmount,
+    minBuyAmount: buyAmount,
+    fees: {
+      zeroExFee: { amount: "1500", token: USDC_ARB, type: "volume" },
+      bridgeNativeFee: null,
+    },
+    gasCosts: {
+      chainType: "evm",
+      gasPrice,
+      gasLimit: "100000",
+      totalNetworkFee: null,
+    },
+    steps: [
+      {
+        type: "bridge",
+        originChainId: 8453,
+        destinationChainId: 42161,
+        sellToken: WETH_BASE,
+        buyToken: USDC_ARB,
+        sellAmount: "1000000000000000",
+        buyAmount,
+        minBuyAmount: buyAmount,
+        provider,
+        estimatedTimeSeconds,
+      },
+    ],
+    transaction: {
+      chainType: "evm",
+      details: {
+        to: "0x0000000000000000000000000000000000000001",
+        data: "0x",
+        gas: null,
+        gasPrice: null,
+        value: "0",
+      },
+    },
+    estimatedTimeSeconds,
+    issues: { allowance: null, balance: null, simulationIncomplete: false },
+    quoteId: `${provider}-${buyAmount}`,
+  } as Quote;
+}
+
+describe("compareQuotes", () => {
+  it("marks the highest buy amount and the lowest ETA", () => {
+    const compared = compareQuotes(
+      [quote("2500000", "1000", 60), quote("2600000", "1000", 120)],
+      CONTEXT,
+    );
+
+    assert.deepEqual(
+      compared.map(({ bestPrice, fastest }) => ({ bestPrice, fastest })),
+      [
+        { bestPrice: false, fastest: true },
+        { bestPrice: true, fastest: false },
+      ],
+    );
+    assert.equal(compared[1].cells.buyAmount, "2.6 USDC");
+    assert.equal(compared[1].cells.zeroExFee, "0.0015 USDC");
+    assert.equal(compared[1].cells.bridges, "across");
+  });
+
+  it("breaks buy amount ties by network fee", () => {
+    const compared = compareQuotes(
+      [quote("2500000", "2000", 60), quote("2500000", "1000", 60)],
+      CONTEXT,
+    );
+
+    assert.deepEqual(
+      compared.map((entry) => entry.networkFee),
+      [BigInt(200000000), BigInt(100000000)],
+    );
+    assert.deepEqual(compared.map((entry) => entry.bestPrice), [false, true]);
+    // Equal ETAs are all fastest
+    assert.deepEqual(compared.map((entry) => entry.fastest), [true, true]);
+  });
+
+  it("marks every remaining tie and never marks a missing ETA", () => {
+    const compared = compareQuotes(
+      [quote("2500000", null, null), quote("2500000", null, null)],
+      CONTEXT,
+    );
+
+    assert.deepEqual(
+      compared.map((entry) => [entry.networkFee, entry.bestPrice]),
+      [
+        [null, true],
+        [null, true],
+      ],
+    );
+    assert.deepEqual(compared.map((entry) => entry.fastest), [false, false]);
+    assert.equal(compared[0].cells.estimatedTime, "unknown");
+  });
+});
+
+describe("quote output", () => {
+  const compared = compareQuotes(
+    [quote("2500000", "1000", 60, "relay, fast"), quote("2600000", null, 90)],
+    CONTEXT,
+  );
+
+  it("writes one CSV line per quote with the fee in base units", () => {
+    const [header, first, second] = renderQuoteCsv(compared).split("\n");
+
+    assert.match(header, /^quote,bestPrice,fastest,networkFee,Bridges,/);
+    // Cells with commas are quoted
+    assert.match(first, /^1,false,true,100000000,"relay, fast",2\.5 USDC,/);
+    assert.match(second, /^2,true,false,,across,2\.6 USDC,/);
+  });
+
+  it("puts quotes side by side in the table", () => {
+    const lines = renderQuoteTable(compared).split("\n");
+
+    assert.match(lines[0], /Quote 1 +│ Quote 2$/);
+    assert.match(lines[2], /^Best +│ fastest +│ best price$/);
+  });
+
+  it("adds the marks and the network fee to the JSON quotes", () => {
+    const json = toQuoteJson(compared);
+
+    assert.deepEqual(
+      json.map(({ bestPrice, fastest, networkFee, quoteId }) => ({
+        bestPrice,
+        fastest,
+        networkFee,
+        quoteId,
+      })),
+      [
+        {
+          bestPrice: false,
+          fastest: true,
+          networkFee: BigInt(100000000),
+          quoteId: "relay, fast-2500000",
+        },
+        {
+          bestPrice: true,
+          fastest: false,
+          networkFee: null,
+          quoteId: "across-2600000",
+        },
+      ],
+    );
+    assert.equal(json[1].buyAmount, "2600000");
+  });
+});
@@ -0,0 +1,296 @@
+import { ChainInfo, getChain } from "./chains";
+import { Quote, Step } from "./schemas";
+import { TokenAmount } from "./tokenAmount";
+import {
+  nativeTokenAmount,
+  TokenInfo,
+  TokenRegistry,
+  toTokenAmount,
+} from "./tokens";
+
+export type QuoteColumn =
+  | "bridges"
+  | "buyAmount"
+  | "minBuyAmount"
+  | "zeroExFee"
+  | "integratorFees"
+  | "bridgeNativeFee"
+  | "reimbursementFee"
+  | "gasCosts"
+  | "estimatedTime"
+  | "steps"
+  | "issues";
+
+/** Column order and labels of the table and CSV output */
+export const QUOTE_COLUMNS: [QuoteColumn, string][] = [
+  ["bridges", "Bridges"],
+  ["buyAmount", "Buy amount"],
+  ["minBuyAmount", "Min buy amount"],
+  ["zeroExFee", "0x fee"],
+  ["integratorFees", "Integrator fees"],
+  ["bridgeNativeFee", "Bridge native fee"],
+  ["reimbursementFee", "Reimbursement fee"],
+  ["gasCosts", "Gas costs"],
+  ["estimatedTime", "ETA"],
+  ["steps", "Steps"],
+  ["issues", "Issues"],
+];
+
+export interface ComparedQuote {
+  quote: Quote;
+  /**
+   * Origin network fee in base units of the gas token (EVM: gas limit × gas
+   * price); `null` when the quote does not say
+   */
+  networkFee: bigint | null;
+  /** Highest `buyAmount`, then lowest `networkFee`; remaining ties are all marked */
+  bestPrice: boolean;
+  /** Lowest `estimatedTimeSeconds`; quotes without an ETA are never fastest */
+  fastest: boolean;
+  /** Human-readable cell per column */
+  cells: Record<QuoteColumn, string>;
+}
+
+export interface QuoteComparisonContext {
+  origin: ChainInfo;
+  destination: ChainInfo;
+  buyToken: TokenInfo;
+  /** Names fee tokens; unknown tokens are shown by address in base units */
+  tokens: TokenRegistry;
+}
+
+/**
+ * Format quotes for side-by-side comparison and mark the best price and the
+ * fastest route
+ */
+export function compareQuotes(
+  quotes: Quote[],
+  context: QuoteComparisonContext,
+): ComparedQuote[] {
+  const bestBuyAmount = quotes.reduce(
+    (best, quote) =>
+      BigInt(quote.buyAmount) > best ? BigInt(quote.buyAmount) : best,
+    BigInt(0),
+  );
+  const networkFees = quotes.map((quote) => getNetworkFee(quote.gasCosts));
+  // Among the highest buy amounts, the cheapest to send wins
+  const bestPriceFee = quotes.reduce<bigint | null>((best, quote, i) => {
+    const fee = networkFees[i];
+    return BigInt(quote.buyAmount) === bestBuyAmount &&
+      fee !== null &&
+      (best === null || fee < best)
+      ? fee
+      : best;
+  }, null);
+  const etas = quotes
+    .map((quote) => quote.estimatedTimeSeconds)
+    .filter((eta): eta is number => eta !== null);
+  const fastestEta = etas.length > 0 ? Math.min(...etas) : null;
+
+  return quotes.map((quote, i) => ({
+    quote,
+    networkFee: networkFees[i],
+    bestPrice:
+      BigInt(quote.buyAmount) === bestBuyAmount &&
+      (bestPriceFee === null || networkFees[i] === bestPriceFee),
+    fastest: fastestEta !== null && quote.estimatedTimeSeconds === fastestEta,
+    cells: {
+      bridges: formatBridges(quote.steps),
+      buyAmount: toTokenAmount(context.buyToken, quote.buyAmount).toString(),
+      minBuyAmount: toTokenAmount(
+        context.buyToken,
+        quote.minBuyAmount,
+      ).toString(),
+      zeroExFee: formatFee(quote.fees.zeroExFee, context),
+      integratorFees: formatIntegratorFees(quote, context),
+      bridgeNativeFee: formatFee(quote.fees.bridgeNativeFee, context),
+      reimbursementFee: formatFee(quote.fees.reimbursementFee, context),
+      gasCosts: formatGasCosts(quote.gasCosts, networkFees[i], context.origin),
+      estimatedTime:
+        quote.estimatedTimeSeconds === null
+          ? "unknown"
+          : `${quote.estimatedTimeSeconds}s`,
+      steps: formatSteps(quote.steps),
+      issues: formatIssues(quote.issues),
+    },
+  }));
+}
+
+// EVM quotes are priced from gas × gas price, falling back to the reported total
+function getNetworkFee(gasCosts: Quote["gasCosts"]): bigint | null {
+  switch (gasCosts.chainType) {
+    case "evm":
+      if (gasCosts.gasPrice !== null) {
+        return BigInt(gasCosts.gasLimit) * BigInt(gasCosts.gasPrice);
+      }
+      return gasCosts.totalNetworkFee === null
+        ? null
+        : BigInt(gasCosts.totalNetworkFee);
+    case "svm":
+    case "tvm":
+      return BigInt(gasCosts.total);
+  }
+}
+
+function formatBridges(steps: Step[]): string {
+  const providers = steps.flatMap((step) =>
+    step.type === "bridge" ? [step.provider] : [],
+  );
+  return providers.length > 0 ? [...new Set(providers)].join(", ") : "-";
+}
+
+// Fees are charged in a token of either chain
+function formatFee(
+  fee: { amount: string; token: string } | null | undefined,
+  context: QuoteComparisonContext,
+): string {
+  if (!fee) {
+    return "-";
+  }
+  const token =
+    context.tokens.get(context.origin, fee.token) ??
+    context.tokens.get(context.destination, fee.token);
+  return token
+    ? toTokenAmount(token, fee.amount).toString()
+    : `${fee.amount} ${fee.token}`;
+}
+
+function formatIntegratorFees(
+  quote: Quote,
+  context: QuoteComparisonContext,
+): string {
+  const fees = quote.fees.integratorFees?.length
+    ? quote.fees.integratorFees
+    : [quote.fees.integratorFee];
+  const formatted = fees
+    .filter((fee) => fee)
+    .map((fee) => formatFee(fee, context));
+  return formatted.length > 0 ? formatted.join(" + ") : "-";
+}
+
+function formatGasCosts(
+  gasCosts: Quote["gasCosts"],
+  networkFee: bigint | null,
+  origin: ChainInfo,
+): string {
+  switch (gasCosts.chainType) {
+    case "evm": {
+      const gas =
+        gasCosts.gasPrice === null
+          ? `${gasCosts.gasLimit} gas`
+          : `${gasCosts.gasLimit} gas × ${new TokenAmount(gasCosts.gasPrice, 9, "gwei")}`;
+      return networkFee === null
+        ? gas
+        : `${nativeTokenAmount(origin, networkFee)} (${gas})`;
+    }
+    case "svm":
+      return `base ${nativeTokenAmount(origin, gasCosts.base)} + priority ${nativeTokenAmount(origin, gasCosts.priority ?? "0")} = ${nativeTokenAmount(origin, gasCosts.total)}`;
+    case "tvm":
+      return `energy ${nativeTokenAmount(origin, gasCosts.energyFee)} + bandwidth ${nativeTokenAmount(origin, gasCosts.bandwidthFee)} = ${nativeTokenAmount(origin, gasCosts.total)}`;
+  }
+}
+
+function chainName(chainId: number): string {
+  return getChain(chainId)?.name ?? String(chainId);
+}
+
+function formatSteps(steps: Step[]): string {
+  return steps
+    .map((step) =>
+      step.type === "bridge"
+        ? `bridge ${step.provider} ${chainName(step.originChainId)}→${chainName(step.destinationChainId)}`
+        : `${step.type} on ${chainName(step.chainId)}`,
+    )
+    .join(" → ");
+}
+
+function formatIssues(issues: Quote["issues"]): string {
+  const flagged: string[] = [];
+  if (issues.balance) {
+    flagged.push(
+      `balance ${issues.balance.actual} < ${issues.balance.expected}`,
+    );
+  }
+  if (issues.allowance) {
+    flagged.push(`allowance for ${issues.allowance.spender}`);
+  }
+  if (issues.simulationIncomplete) {
+    flagged.push("simulation incomplete");
+  }
+  return flagged.length > 0 ? flagged.join("; ") : "none";
+}
+
+function bestMarks(compared: ComparedQuote): string {
+  const marks = [
+    compared.bestPrice ? "best price" : null,
+    compared.fastest ? "fastest" : null,
+  ].filter(Boolean);
+  return marks.length > 0 ? marks.join(", ") : "";
+}
+
+/**
+ * Quotes as columns and fields as rows, so routes read side by side
+ */
+export function renderQuoteTable(compared: ComparedQuote[]): string {
+  const rows: string[][] = [
+    ["", ...compared.map((_, i) => `Quote ${i + 1}`)],
+    ["Best", ...compared.map(bestMarks)],
+    ...QUOTE_COLUMNS.map(([column, label]) => [
+      label,
+      ...compared.map((entry) => entry.cells[column]),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  const line = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join(" │ ")
+      .trimEnd();
+  const separator = widths.map((width) => "─".repeat(width)).join("─┼─");
+  return [line(rows[0]), separator, ...rows.slice(1).map(line)].join("\n");
+}
+
+/**
+ * One line per quote, with `bestPrice` and `fastest` as `true` / `false` columns
+ * and `networkFee` in base units of the origin gas token
+ */
+export function renderQuoteCsv(compared: ComparedQuote[]): string {
+  const header = [
+    "quote",
+    "bestPrice",
+    "fastest",
+    "networkFee",
+    ...QUOTE_COLUMNS.map(([, label]) => label),
+  ];
+  const rows = compared.map((entry, i) => [
+    String(i + 1),
+    String(entry.bestPrice),
+    String(entry.fastest),
+    entry.networkFee?.toString() ?? "",
+    ...QUOTE_COLUMNS.map(([column]) => entry.cells[column]),
+  ]);
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsv).join(","))
+    .join("\n");
+}
+
+/**
+ * Quotes for JSON output, each with its `bestPrice`, `fastest` and
+ * `networkFee` (a bigint in base units of the origin gas token)
+ */
+export function toQuoteJson(
+  compared: ComparedQuote[],
+): (Quote & Pick<ComparedQuote, "bestPrice" | "fastest" | "networkFee">)[] {
+  return compared.map(({ quote, networkFee, bestPrice, fastest }) => ({
+    bestPrice,
+    fastest,
+    networkFee,
+    ...quote,
+  }));
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
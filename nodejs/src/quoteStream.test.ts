@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { CrossChainClient, SchemaDrift } from "./crossChainClient";
+import { ZeroExSchemaError } from "./errors";
+import { CrossChainQuotesRequestInput } from "./schemas";
+
+const QUOTE = {
+  sellAmount: "1000000",
+  buyAmount: "990000",
+  minBuyAmount: "980000",
+  fees: {
+    zeroExFee: { amount: "100", token: "0xabc", type: "volume" },
+    bridgeNativeFee: null,
+  },
+  gasCosts: {
+    chainType: "evm",
+    gasPrice: "1000",
+    gasLimit: "21000",
+    totalNetworkFee: "21000000",
+  },
+  steps: [
+    {
+      type: "teleport",
+      originChainId: 8453,
+      destinationChainId: 42161,
+    },
+  ],
+  transaction: {
+    chainType: "evm",
+    details: {
+      to: "0x0000000000000000000000000000000000000001",
+      data: "0x",
+      gas: null,
+      gasPrice: null,
+      value: "0",
+    },
+  },
+  estimatedTimeSeconds: 30,
+  issues: { allowance: null, balance: null, simulationIncomplete: false },
+  quoteId: "q1",
+};
+
+const REQUEST = {
+  originChain: "base",
+  destinationChain: "arbitrum",
+  sellToken: "0x1",
+  buyToken: "0x2",
+  sellAmount: "1000000",
+  sortQuotesBy: "price",
+  originAddress: "0x3",
+} as CrossChainQuotesRequestInput;
+
+describe("getQuotesStream against a stub server", () => {
+  // Local SSE stub sending `events` and closing the stream
+  const server = createServer(
+    (_request: IncomingMessage, response: ServerResponse) => {
+      response.writeHead(200, { "content-type": "text/event-stream" });
+      for (const event of events) {
+        response.write(`data: ${JSON.stringify({ zid: "0x1", event })}\n\n`);
+      }
+      response.end();
+    },
+  );
+  let events: unknown[] = [];
+  let baseUrl = "";
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    events = [
+      { type: "quote", data: { quote: QUOTE, seqNum: 1 } },
+      { type: "result", data: { liquidityAvailable: true } },
+    ];
+  });
+
+  it("rejects unknown variants in strict mode", async () => {
+    const client = new CrossChainClient("test-key", { baseUrl });
+
+    await assert.rejects(async () => {
+      for await (const _ of client.getQuotesStream(REQUEST, {
+        validate: false,
+      })) {
+        // Drain the stream
+      }
+    }, ZeroExSchemaError);
+  });
+
+  it("keeps unknown variants and reports drift in lenient mode", async () => {
+    const drifts: SchemaDrift[] = [];
+    const client = new CrossChainClient("test-key", {
+      baseUrl,
+      schemaMode: "lenient",
+      onSchemaDrift: (drift) => drifts.push(drift),
+    });
+
+    const types: string[] = [];
+    for await (const event of client.getQuotesStream(REQUEST, {
+      validate: false,
+    })) {
+      types.push(event.type);
+      if (event.type === "quote") {
+        assert.deepEqual(event.quote.steps[0], {
+          type: "unknown",
+          raw: QUOTE.steps[0],
+        });
+      }
+    }
+
+    assert.deepEqual(types, ["quote", "result"]);
+    assert.equal(drifts.length, 1);
+    assert.equal(drifts[0].operation, "getQuotesStream");
+    assert.equal(drifts[0].zid, "0x1");
+  });
+
+  it("converts streamed amounts in bigint mode", async () => {
+    const client = new CrossChainClient("test-key", {
+      baseUrl,
+      schemaMode: "lenient",
+      onSchemaDrift: () => {},
+      amounts: "bigint",
+    });
+
+    for await (const event of client.getQuotesStream(REQUEST, {
+      validate: false,
+    })) {
+      if (event.type === "quote") {
+        const { quote } = event;
+        assert.equal(quote.buyAmount, BigInt(990000));
+        assert.equal(quote.fees.zeroExFee?.amount, BigInt(100));
+        assert.equal(
+          quote.gasCosts.chainType === "evm" && quote.gasCosts.gasLimit,
+          BigInt(21000),
+        );
+        // Transactions are left as returned
+        assert.equal(
+          quote.transaction.chainType === "evm" &&
+            quote.transaction.details.value,
+          "0",
+        );
+      }
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  LenientQuote,
+  LenientQuoteStreamMessage,
+  Quote,
+  QuoteStreamMessage,
+} from "./schemas";
+
+/**
+ * Events yielded by `CrossChainClient.getQuotesStream`; `Q` is the quote type
+ * of the client's schema and amount modes
+ */
+export type QuoteStreamEvent<Q = Quote> =
+  | {
+      type: "quote";
+      zid: string | null;
+      quote: Q;
+      allowanceTarget: string | null;
+      seqNum: number | null;
+    }
+  | {
+      type: "result";
+      zid: string | null;
+      liquidityAvailable: boolean;
+    }
+  | {
+      type: "error";
+      zid: string | null;
+      message: string;
+      code: string;
+      /** Fatal errors end the stream */
+      fatal: boolean;
+    };
+
+// Strict messages carry a Quote, lenient ones a LenientQuote
+type QuoteOf<M> = M extends QuoteStreamMessage ? Quote : LenientQuote;
+
+/**
+ * Flatten a raw stream message into a QuoteStreamEvent
+ */
+export function toQuoteStreamEvent<
+  M extends QuoteStreamMessage | LenientQuoteStreamMessage,
+>(message: M): QuoteStreamEvent<QuoteOf<M>> {
+  const zid = message.zid ?? null;
+  const { event } = message;
+
+  switch (event.type) {
+    case "quote": {
+      const { allowanceTarget = null, seqNum = null, ...data } = event.data;
+      // The quote is either nested under `quote` or inlined next to the metadata
+      const quote = ("quote" in data ? data.quote : data) as QuoteOf<M>;
+      return { type: "quote", zid, quote, allowanceTarget, seqNum };
+    }
+    case "result":
+      return {
+        type: "result",
+        zid,
+        liquidityAvailable: event.data.liquidityAvailable,
+      };
+    case "error":
+      return {
+        type: "error",
+        zid,
+        message: event.data.message,
+        code: String(event.data.code),
+        fatal: event.data.type === "fatal",
+      };
+  }
+}
@@ -0,0 +1,59 @@
+import { ApiErrorDetail, CrossChainQuotesRequestInput, Issues } from "./schemas";
+
+type FilterField = "includedBridges" | "excludedBridges" | "excludedSwapSources";
+
+/**
+ * Bridge or swap source names in the request that the API did not recognize
+ */
+export interface QuoteWarning {
+  type: "invalidBridge" | "invalidSwapSource";
+  /** Request fields that contained the name */
+  fields: FilterField[];
+  name: string;
+  message: string;
+}
+
+/**
+ * Turn the response-level `invalidBridgesPassed` / `invalidSwapSourcesPassed` issues into warnings
+ */
+export function getQuoteWarnings(
+  request: CrossChainQuotesRequestInput,
+  issues: Issues | null,
+): QuoteWarning[] {
+  if (!issues) {
+    return [];
+  }
+
+  const fieldsContaining = (fields: FilterField[], name: string) =>
+    fields.filter((field) => request[field]?.includes(name));
+
+  return [
+    ...issues.invalidBridgesPassed.map(
+      (name): QuoteWarning => ({
+        type: "invalidBridge",
+        fields: fieldsContaining(["includedBridges", "excludedBridges"], name),
+        name,
+        message: `Unknown bridge "${name}"`,
+      }),
+    ),
+    ...issues.invalidSwapSourcesPassed.map(
+      (name): QuoteWarning => ({
+        type: "invalidSwapSource",
+        fields: fieldsContaining(["excludedSwapSources"], name),
+        name,
+        message: `Unknown swap source "${name}"`,
+      }),
+    ),
+  ];
+}
+
+/**
+ * One validation detail per request field an unrecognized name was passed in
+ */
+export function toErrorDetails(warnings: QuoteWarning[]): ApiErrorDetail[] {
+  return warnings.flatMap((warning) =>
+    warning.fields.length > 0
+      ? warning.fields.map((field) => ({ field, reason: warning.message }))
+      : [{ field: "request", reason: warning.message }],
+  );
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getRateLimiter, RateLimiter } from "./rateLimiter";
+
+describe("RateLimiter", () => {
+  it("releases the slot of a task that throws synchronously", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    await assert.rejects(
+      limiter.schedule(() => {
+        throw new Error("sync failure");
+      }),
+      /sync failure/,
+    );
+
+    assert.equal(limiter.getStats().active, 0);
+    assert.equal(await limiter.schedule(async () => "next"), "next");
+  });
+});
+
+describe("getRateLimiter", () => {
+  it("shares one limiter per API key", () => {
+    const limiter = getRateLimiter("shared-key", { requestsPerSecond: 2 });
+
+    assert.equal(getRateLimiter("shared-key"), limiter);
+    assert.equal(
+      getRateLimiter("shared-key", { requestsPerSecond: 2 }),
+      limiter,
+    );
+  });
+
+  it("refuses limits that conflict with the shared limiter", () => {
+    const limiter = getRateLimiter("conflict-key", { burst: 4 });
+
+    assert.throws(
+      () => getRateLimiter("conflict-key", { burst: 20 }),
+      /burst 20 \(shared limiter: 4\)/,
+    );
+    assert.equal(limiter.limits.burst, 4);
+  });
+});
@@ -0,0 +1,222 @@
+import { toAbortError } from "./abort";
+
+/**
+ * Interactive calls (quotes) are sent before queued background calls (status polling)
+ */
+export type RequestPriority = "interactive" | "background";
+
+export interface RateLimitOptions {
+  /** Sustained request rate */
+  requestsPerSecond: number;
+  /** Requests that may be sent back to back after a quiet period */
+  burst: number;
+  /** Requests awaiting a response at the same time */
+  maxConcurrency: number;
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  requestsPerSecond: 5,
+  burst: 10,
+  maxConcurrency: 5,
+};
+
+export interface RateLimiterStats {
+  /** Requests waiting for a token or a free slot */
+  queued: number;
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Requests currently in flight */
+  active: number;
+  /** Requests that went through the limiter so far */
+  started: number;
+  /** Time spent queued, averaged over every started request */
+  averageWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface QueuedTask {
+  enqueuedAt: number;
+  start: () => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
+}
+
+const PRIORITIES: RequestPriority[] = ["interactive", "background"];
+
+/**
+ * Token bucket rate limiter combined with a concurrency queue
+ */
+export class RateLimiter {
+  private options: RateLimitOptions;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private active = 0;
+  private started = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly queues: Record<RequestPriority, QueuedTask[]> = {
+    interactive: [],
+    background: [],
+  };
+
+  constructor(options: Partial<RateLimitOptions> = {}) {
+    this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options };
+    this.tokens = this.options.burst;
+  }
+
+  /** Limits currently applied */
+  get limits(): RateLimitOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Change the limits; queued requests are re-evaluated immediately
+   */
+  configure(options: Partial<RateLimitOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.tokens = Math.min(this.tokens, this.options.burst);
+    this.pump();
+  }
+
+  /**
+   * Run `task` once a token and a concurrency slot are available.
+   * Rejects with ZeroExAbortError if the signal fires while still queued.
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    options: { priority?: RequestPriority; signal?: AbortSignal } = {},
+  ): Promise<T> {
+    const { priority = "interactive", signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(toAbortError(signal));
+        return;
+      }
+
+      const queue = this.queues[priority];
+      const queued: QueuedTask = {
+        enqueuedAt: Date.now(),
+        signal,
+        start: () => {
+          // A task throwing synchronously must still release its slot
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.pump();
+            });
+        },
+        onAbort: () => {
+          queue.splice(queue.indexOf(queued), 1);
+          reject(toAbortError(signal!));
+        },
+      };
+
+      signal?.addEventListener("abort", queued.onAbort, { once: true });
+      queue.push(queued);
+      this.pump();
+    });
+  }
+
+  getStats(): RateLimiterStats {
+    return {
+      queued: this.queues.interactive.length + this.queues.background.length,
+      queuedByPriority: {
+        interactive: this.queues.interactive.length,
+        background: this.queues.background.length,
+      },
+      active: this.active,
+      started: this.started,
+      averageWaitMs: this.started > 0 ? this.totalWaitMs / this.started : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private pump(): void {
+    while (this.active < this.options.maxConcurrency) {
+      const queue = PRIORITIES.map((priority) => this.queues[priority]).find(
+        (queue) => queue.length > 0,
+      );
+      if (!queue) {
+        return;
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.wakeForNextToken();
+        return;
+      }
+
+      const next = queue.shift()!;
+      next.signal?.removeEventListener("abort", next.onAbort);
+      this.tokens--;
+      this.active++;
+      this.started++;
+
+      const waitedMs = Date.now() - next.enqueuedAt;
+      this.totalWaitMs += waitedMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+      next.start();
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.options.burst,
+      this.tokens +
+        ((now - this.refilledAt) / 1000) * this.options.requestsPerSecond,
+    );
+    this.refilledAt = now;
+  }
+
+  private wakeForNextToken(): void {
+    if (this.timer) {
+      return;
+    }
+    const delayMs =
+      ((1 - this.tokens) / this.options.requestsPerSecond) * 1000;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.ceil(delayMs));
+  }
+}
+
+const sharedLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Limiter shared by every client using the same API key.
+ * Throws if `options` conflict with the limits of the existing shared limiter.
+ */
+export function getRateLimiter(
+  apiKey: string,
+  options?: Partial<RateLimitOptions>,
+): RateLimiter {
+  const limiter = sharedLimiters.get(apiKey);
+  if (!limiter) {
+    const created = new RateLimiter(options);
+    sharedLimiters.set(apiKey, created);
+    return created;
+  }
+
+  const { limits } = limiter;
+  const conflicts = Object.entries(options ?? {}).filter(
+    ([name, value]) =>
+      value !== undefined && limits[name as keyof RateLimitOptions] !== value,
+  );
+  if (conflicts.length > 0) {
+    const described = conflicts
+      .map(([name, value]) => {
+        const current = limits[name as keyof RateLimitOptions];
+        return `${name} ${value} (shared limiter: ${current})`;
+      })
+      .join(", ");
+    throw new Error(
+      `Conflicting rate limits for an API key shared with other clients: ${described}. Pass the same limits to every client, or call configure() on getRateLimiter(apiKey).`,
+    );
+  }
+  return limiter;
+}
@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { CrossChainClient } from "./crossChainClient";
+import { ZeroExApiError, ZeroExValidationError } from "./errors";
+import { RetryPolicy } from "./retry";
+
+type Reply = (response: ServerResponse) => void;
+
+const STATUS = {
+  status: "bridge_filled",
+  steps: [],
+  failure: null,
+  transactions: [],
+  zid: "0x0000",
+};
+
+const ok: Reply = (response) => {
+  response.writeHead(200, { "content-type": "application/json" });
+  response.end(JSON.stringify(STATUS));
+};
+
+function fail(status: number, headers: Record<string, string> = {}): Reply {
+  return (response) => {
+    response.writeHead(status, {
+      "content-type": "application/json",
+      ...headers,
+    });
+    response.end(JSON.stringify({ name: "ERROR", message: "stub error" }));
+  };
+}
+
+describe("retries against a stub server", () => {
+  // Local 0x API stub answering each request with the next queued reply
+  const server = createServer(
+    (_request: IncomingMessage, response: ServerResponse) => {
+      requests++;
+      (replies.shift() ?? ok)(response);
+    },
+  );
+  let replies: Reply[] = [];
+  let requests = 0;
+  let baseUrl = "";
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = 0;
+  });
+
+  function getStatus(retry: Partial<RetryPolicy>) {
+    const client = new CrossChainClient("test-key", {
+      baseUrl,
+      retry: { jitter: false, ...retry },
+    });
+    return client.getStatus({ originChain: "base", originTxHash: "0x1" });
+  }
+
+  it("waits for Retry-After before retrying", async () => {
+    replies = [fail(503, { "retry-after": "1" })];
+    const start = Date.now();
+
+    const status = await getStatus({
+      baseDelayMs: 10_000,
+      maxDelayMs: 10_000,
+    });
+
+    const elapsed = Date.now() - start;
+    assert.equal(status.status, "bridge_filled");
+    assert.equal(requests, 2);
+    assert.ok(elapsed >= 900, `retried after ${elapsed}ms`);
+    assert.ok(elapsed < 5_000, `retried after ${elapsed}ms`);
+  });
+
+  it("retries server errors with backoff until one succeeds", async () => {
+    replies = [fail(500), fail(502)];
+
+    const status = await getStatus({ maxAttempts: 3, baseDelayMs: 10 });
+
+    assert.equal(status.status, "bridge_filled");
+    assert.equal(requests, 3);
+  });
+
+  it("stops once the next delay would exceed the retry budget", async () => {
+    replies = Array.from({ length: 10 }, () => fail(503));
+
+    // Waits 50ms, then gives up since another 100ms would exceed 120ms
+    await assert.rejects(
+      getStatus({ maxAttempts: 10, baseDelayMs: 50, budgetMs: 120 }),
+      (error) => error instanceof ZeroExApiError && error.status === 503,
+    );
+    assert.equal(requests, 2);
+  });
+
+  it("does not wait for a Retry-After beyond the retry budget", async () => {
+    replies = [fail(429, { "retry-after": "60" })];
+    const start = Date.now();
+
+    await assert.rejects(
+      getStatus({ maxAttempts: 3, budgetMs: 1_000 }),
+      (error) => error instanceof ZeroExApiError && error.status === 429,
+    );
+    assert.equal(requests, 1);
+    assert.ok(Date.now() - start < 1_000);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    replies = Array.from({ length: 10 }, () => fail(503));
+
+    await assert.rejects(getStatus({ maxAttempts: 3, baseDelayMs: 1 }));
+    assert.equal(requests, 3);
+  });
+
+  for (const status of [400, 401, 404, 422]) {
+    it(`does not retry ${status} responses`, async () => {
+      replies = [fail(status)];
+
+      await assert.rejects(
+        getStatus({ maxAttempts: 3, baseDelayMs: 1 }),
+        (error) => error instanceof ZeroExApiError && error.status === status,
+      );
+      assert.equal(requests, 1);
+    });
+  }
+
+  it("maps 400 responses to ZeroExValidationError", async () => {
+    replies = [fail(400)];
+
+    await assert.rejects(getStatus({ baseDelayMs: 1 }), ZeroExValidationError);
+  });
+});
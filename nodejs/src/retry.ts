@@ -0,0 +1,101 @@
+import { sleep, throwIfAborted } from "./abort";
+import { ZeroExApiError, ZeroExNetworkError } from "./errors";
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first request */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled on every following retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Upper bound for the total time spent waiting between attempts of one call */
+  budgetMs: number;
+  /** Randomize delays so concurrent callers do not retry in lockstep */
+  jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  budgetMs: 30_000,
+  jitter: true,
+};
+
+/**
+ * Merge a per-call override into a client policy; `false` disables retries
+ */
+export function resolveRetryPolicy(
+  policy: RetryPolicy,
+  override?: Partial<RetryPolicy> | false,
+): RetryPolicy {
+  if (override === false) {
+    return { ...policy, maxAttempts: 1 };
+  }
+  return { ...policy, ...override };
+}
+
+/**
+ * Whether an error is worth retrying (network failures, 408, 429 and 5xx)
+ */
+export function isRetryableError(error: unknown): boolean {
+  return (
+    error instanceof ZeroExNetworkError ||
+    (error instanceof ZeroExApiError && error.retryable)
+  );
+}
+
+/**
+ * Delay before the given retry (1-based), honoring Retry-After when present
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  retry: number,
+  error: unknown,
+): number {
+  if (error instanceof ZeroExApiError && error.retryAfterMs !== null) {
+    return error.retryAfterMs;
+  }
+
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (retry - 1),
+  );
+  // "Full jitter": pick uniformly between 0 and the exponential delay
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Run an operation, retrying retryable failures according to the policy.
+ * Non-idempotent operations are never retried; an aborted signal stops retrying.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  options: { idempotent: boolean; signal?: AbortSignal },
+): Promise<T> {
+  let waitedMs = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        !options.idempotent ||
+        attempt >= policy.maxAttempts ||
+        !isRetryableError(error)
+      ) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt, error);
+      if (waitedMs + delay > policy.budgetMs) {
+        throw error;
+      }
+
+      waitedMs += delay;
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { createFailoverFetch, getRpcHealth, resetRpcHealth } from "./rpc";
+
+describe("createFailoverFetch", () => {
+  // Local RPC stub; the first path segment picks how an endpoint behaves
+  const server = createServer(
+    (request: IncomingMessage, response: ServerResponse) => {
+      const endpoint = request.url!.split("/")[1];
+      hits.push(endpoint);
+      const reply = (status: number) => {
+        response.writeHead(status, { "content-type": "application/json" });
+        response.end(JSON.stringify({ endpoint }));
+      };
+
+      if (endpoint === "busy") {
+        reply(429);
+      } else if (endpoint === "error") {
+        reply(500);
+      } else if (endpoint === "down") {
+        reply(503);
+      } else if (endpoint === "slow") {
+        setTimeout(() => reply(200), 200);
+      } else {
+        reply(200);
+      }
+    },
+  );
+  let hits: string[] = [];
+  let baseUrl = "";
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    hits = [];
+    resetRpcHealth();
+  });
+
+  // Failover fetch for Base over the given stub endpoints, in order
+  function failoverFetch(endpoints: string[]) {
+    return createFailoverFetch("base", {
+      env: {
+        RPC_URL_8453: endpoints
+          .map((endpoint) => `${baseUrl}/${endpoint}`)
+          .join(","),
+      },
+    });
+  }
+
+  it("fails over on 429 and 5xx responses", async () => {
+    const response = await failoverFetch(["busy", "error", "ok"])(
+      "/wallet/getnowblock",
+      { method: "POST" },
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { endpoint: "ok" });
+    assert.deepEqual(hits, ["busy", "error", "ok"]);
+    const failures = getRpcHealth().map((entry) => [
+      entry.url.split("/").pop(),
+      entry.failures,
+    ]);
+    assert.deepEqual(failures, [
+      ["busy", 1],
+      ["error", 1],
+      ["ok", 0],
+    ]);
+  });
+
+  it("returns the last endpoint's response as is", async () => {
+    const response = await failoverFetch(["busy", "down"])("/");
+
+    assert.equal(response.status, 503);
+    assert.deepEqual(hits, ["busy", "down"]);
+  });
+
+  it("fails over on network errors and timeouts", async () => {
+    const rpcFetch = createFailoverFetch("base", {
+      timeoutMs: 50,
+      env: {
+        RPC_URL_8453: `http://127.0.0.1:1,${baseUrl}/slow,${baseUrl}/ok`,
+      },
+    });
+
+    const response = await rpcFetch("/");
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(hits, ["slow", "ok"]);
+  });
+
+  it("reports every endpoint when all of them fail", async () => {
+    const rpcFetch = createFailoverFetch("base", {
+      env: { RPC_URL_8453: "http://127.0.0.1:1,http://127.0.0.1:2" },
+    });
+
+    await assert.rejects(rpcFetch("/"), (error: Error) => {
+      assert.match(error.message, /^All base RPC endpoints failed:/);
+      assert.match(error.message, /- http:\/\/127\.0\.0\.1:1: /);
+      assert.match(error.message, /- http:\/\/127\.0\.0\.1:2: /);
+      return true;
+    });
+  });
+
+  it("tries unhealthy endpoints last", async () => {
+    const rpcFetch = failoverFetch(["error", "ok"]);
+
+    for (let i = 0; i < 3; i++) {
+      await rpcFetch("/");
+    }
+    hits = [];
+    await rpcFetch("/");
+
+    assert.deepEqual(hits, ["ok"]);
+    assert.equal(
+      getRpcHealth().find((entry) => entry.url.endsWith("/error"))?.healthy,
+      false,
+    );
+  });
+
+  it("does not fail over when the caller aborts", async () => {
+    const controller = new AbortController();
+    const pending = failoverFetch(["slow", "ok"])("/", {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 20);
+
+    await assert.rejects(pending, { name: "AbortError" });
+    assert.deepEqual(hits, ["slow"]);
+  });
+});
@@ -0,0 +1,307 @@
+import { Commitment, Connection } from "@solana/web3.js";
+import { fallback, http, shouldThrow, type Transport } from "viem";
+import { createAbortScope } from "./abort";
+import { CHAINS, ChainInfo, ChainRef, getChain, getRpcUrls } from "./chains";
+
+/** Consecutive failures after which an endpoint is tried last */
+const UNHEALTHY_AFTER_FAILURES = 3;
+/** How long an unhealthy endpoint stays at the back of the list */
+const UNHEALTHY_COOLDOWN_MS = 30_000;
+const DEFAULT_RPC_TIMEOUT_MS = 10_000;
+
+export interface RpcOptions {
+  /** Per-endpoint request timeout before failing over (default 10s) */
+  timeoutMs?: number;
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface RpcEndpointHealth {
+  chain: string;
+  url: string;
+  /**
+   * `false` after 3 consecutive failures, until the endpoint succeeds again or
+   * 30s have passed since its last failure. Unhealthy endpoints are tried last.
+   */
+  healthy: boolean;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  /** Timestamps in ms since the epoch */
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+}
+
+type EndpointStats = Omit<RpcEndpointHealth, "healthy">;
+
+const endpoints = new Map<string, EndpointStats>();
+
+function chainKey(chain: ChainRef | ChainInfo): string {
+  return getChain(chain)?.name ?? String(chain);
+}
+
+function stats(chain: string, url: string): EndpointStats {
+  const key = `${chain} ${url}`;
+  let entry = endpoints.get(key);
+  if (!entry) {
+    entry = {
+      chain,
+      url,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+    };
+    endpoints.set(key, entry);
+  }
+  return entry;
+}
+
+function recordSuccess(chain: string, url: string, startedAt: number): void {
+  const entry = stats(chain, url);
+  entry.requests += 1;
+  entry.consecutiveFailures = 0;
+  entry.lastLatencyMs = Date.now() - startedAt;
+  entry.lastSuccessAt = Date.now();
+}
+
+function recordFailure(
+  chain: string,
+  url: string,
+  startedAt: number,
+  error: unknown,
+): void {
+  const entry = stats(chain, url);
+  entry.requests += 1;
+  entry.failures += 1;
+  entry.consecutiveFailures += 1;
+  entry.lastLatencyMs = Date.now() - startedAt;
+  entry.lastError = error instanceof Error ? error.message : String(error);
+  entry.lastFailureAt = Date.now();
+}
+
+function isHealthy(entry: EndpointStats): boolean {
+  return (
+    entry.consecutiveFailures < UNHEALTHY_AFTER_FAILURES ||
+    Date.now() - (entry.lastFailureAt ?? 0) > UNHEALTHY_COOLDOWN_MS
+  );
+}
+
+/**
+ * Health of every endpoint used so far, or of all configured endpoints of `chain`
+ * (including unused ones), in order of preference
+ */
+export function getRpcHealth(
+  chain?: ChainRef | ChainInfo,
+  env: NodeJS.ProcessEnv = process.env,
+): RpcEndpointHealth[] {
+  const entries =
+    chain === undefined
+      ? [...endpoints.values()]
+      : getRpcUrls(chain, env).map((url) => stats(chainKey(chain), url));
+  return entries.map((entry) => ({ ...entry, healthy: isHealthy(entry) }));
+}
+
+/** Forget all recorded requests, e.g. between tests or after fixing an endpoint */
+export function resetRpcHealth(): void {
+  endpoints.clear();
+}
+
+// Healthy endpoints first, otherwise in order of preference
+function orderEndpoints(chain: string, urls: string[]): string[] {
+  const healthy = urls.filter((url) => isHealthy(stats(chain, url)));
+  return [...healthy, ...urls.filter((url) => !healthy.includes(url))];
+}
+
+/**
+ * viem transport over all RPC URLs of an EVM chain, failing over to the next
+ * endpoint on network errors, timeouts and server errors. Works for chains
+ * outside the registry when `RPC_URL_<chainId>` is set.
+ */
+export function createEvmTransport(
+  chain: ChainRef | ChainInfo,
+  options: RpcOptions = {},
+): Transport {
+  const key = chainKey(chain);
+  const urls = orderEndpoints(key, getRpcUrls(chain, options.env));
+  return fallback(
+    urls.map((url) =>
+      tracked(
+        key,
+        url,
+        http(url, {
+          timeout: options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS,
+          // Fail over right away instead of retrying a failing endpoint
+          retryCount: 0,
+        }),
+      ),
+    ),
+  );
+}
+
+// Records health for every request; JSON-RPC errors such as reverts count as answered
+function tracked(chain: string, url: string, transport: Transport): Transport {
+  return (parameters) => {
+    const { request, ...rest } = transport(parameters);
+    return {
+      ...rest,
+      request: (async (args: Parameters<typeof request>[0]) => {
+        const startedAt = Date.now();
+        try {
+          const result = await request(args);
+          recordSuccess(chain, url, startedAt);
+          return result;
+        } catch (error) {
+          if (error instanceof Error && shouldThrow(error)) {
+            recordSuccess(chain, url, startedAt);
+          } else {
+            recordFailure(chain, url, startedAt, error);
+          }
+          throw error;
+        }
+      }) as typeof request,
+    };
+  };
+}
+
+/** `fetch` relative to a chain's RPC endpoint, e.g. `"/wallet/getnowblock"` for Tron */
+export type RpcFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * `fetch` that tries the chain's RPC URLs in turn. Network errors, timeouts,
+ * 429 and 5xx responses move on to the next endpoint; the last endpoint's
+ * response is returned as is. Aborting `init.signal` stops without failing over.
+ */
+export function createFailoverFetch(
+  chain: ChainRef | ChainInfo,
+  options: RpcOptions = {},
+): RpcFetch {
+  const key = chainKey(chain);
+  const urls = getRpcUrls(chain, options.env);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS;
+
+  return async (path, init = {}) => {
+    const failures: string[] = [];
+    const ordered = orderEndpoints(key, urls);
+
+    for (const [index, url] of ordered.entries()) {
+      const isLast = index === ordered.length - 1;
+      const startedAt = Date.now();
+      const scope = createAbortScope(init.signal ?? undefined, timeoutMs);
+      try {
+        const response = await fetch(`${url}${path}`, {
+          ...init,
+          signal: scope.signal,
+        });
+        if (response.status === 429 || response.status >= 500) {
+          recordFailure(key, url, startedAt, `HTTP ${response.status}`);
+          if (!isLast) {
+            failures.push(`${url}: HTTP ${response.status}`);
+            continue;
+          }
+        } else {
+          recordSuccess(key, url, startedAt);
+        }
+        return response;
+      } catch (error) {
+        if (init.signal?.aborted) {
+          throw error;
+        }
+        recordFailure(key, url, startedAt, error);
+        failures.push(
+          `${url}: ${error instanceof Error ? error.message : error}`,
+        );
+      } finally {
+        scope.dispose();
+      }
+    }
+
+    throw new Error(
+      `All ${key} RPC endpoints failed:\n${failures.map((failure) => `  - ${failure}`).join("\n")}`,
+    );
+  };
+}
+
+/**
+ * Solana connection whose HTTP requests fail over between the configured RPC
+ * URLs. Subscriptions (e.g. for `confirmTransaction`) use the first endpoint's websocket.
+ */
+export function createSolanaConnection(
+  chain: ChainRef | ChainInfo = CHAINS.solana,
+  options: RpcOptions & { commitment?: Commitment } = {},
+): Connection {
+  const rpcFetch = createFailoverFetch(chain, options);
+  return new Connection(getRpcUrls(chain, options.env)[0], {
+    commitment: options.commitment,
+    // JSON-RPC requests go to the endpoint root
+    fetch: (_url, init) => rpcFetch("", init as RequestInit),
+  });
+}
+
+/**
+ * Send a cheap request to every RPC URL of a chain and record the results:
+ * `eth_chainId` (which must match the chain), Solana `getHealth` or Tron
+ * `/wallet/getnowblock`
+ */
+export async function probeRpcEndpoints(
+  chain: ChainRef | ChainInfo,
+  options: RpcOptions = {},
+): Promise<RpcEndpointHealth[]> {
+  const info = getChain(chain);
+  const key = chainKey(chain);
+  const urls = getRpcUrls(chain, options.env);
+  const family = info?.family ?? "evm";
+
+  await Promise.all(
+    urls.map(async (url) => {
+      const startedAt = Date.now();
+      const scope = createAbortScope(
+        undefined,
+        options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS,
+      );
+      try {
+        const response =
+          family === "tvm"
+            ? await fetch(`${url}/wallet/getnowblock`, {
+                method: "POST",
+                signal: scope.signal,
+              })
+            : await fetch(url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  jsonrpc: "2.0",
+                  id: 1,
+                  method: family === "svm" ? "getHealth" : "eth_chainId",
+                  params: [],
+                }),
+                signal: scope.signal,
+              });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+        const body = await response.json();
+        if (body.error) {
+          throw new Error(body.error.message ?? JSON.stringify(body.error));
+        }
+        const expectedId = info?.statusId ?? Number(chain);
+        if (family === "evm" && Number(body.result) !== expectedId) {
+          throw new Error(
+            `Wrong chain: endpoint reports ${Number(body.result)}, expected ${expectedId}`,
+          );
+        }
+        recordSuccess(key, url, startedAt);
+      } catch (error) {
+        recordFailure(key, url, startedAt, error);
+      } finally {
+        scope.dispose();
+      }
+    }),
+  );
+
+  return getRpcHealth(chain, options.env);
+}
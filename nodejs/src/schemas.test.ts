@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { z } from "zod";
+import { tronBase58ToHex } from "./addresses";
+import {
+  CrossChainStatusResponseSchema,
+  LenientCrossChainStatusResponseSchema,
+  LenientStepSchema,
+  LenientTransactionSchema,
+  lenientUnion,
+  StepSchema,
+  TvmTransactionSchema,
+} from "./schemas";
+
+const USDT = "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t";
+const OWNER = "TJnN6n7T3KTSzEyUMUcHeq3J4gwSDmUuZv";
+
+function tvmTransaction(to: string, ownerAddress: string) {
+  return {
+    chainType: "tvm",
+    details: { to, data: "0x", value: "0", ownerAddress },
+  };
+}
+
+describe("TvmTransactionSchema", () => {
+  it("normalises hex addresses to base58", () => {
+    const parsed = TvmTransactionSchema.parse(
+      tvmTransaction(tronBase58ToHex(USDT), `0x${tronBase58ToHex(OWNER)}`),
+    );
+
+    assert.equal(parsed.details.to, USDT);
+    assert.equal(parsed.details.ownerAddress, OWNER);
+  });
+
+  it("keeps base58 addresses", () => {
+    const parsed = TvmTransactionSchema.parse(tvmTransaction(USDT, OWNER));
+
+    assert.equal(parsed.details.to, USDT);
+  });
+
+  it("accepts hex addresses in lenient mode too", () => {
+    const parsed = LenientTransactionSchema.parse(
+      tvmTransaction(tronBase58ToHex(USDT), OWNER),
+    );
+
+    assert.equal(parsed.chainType === "tvm" && parsed.details.to, USDT);
+  });
+
+  it("rejects EVM addresses", () => {
+    const evm = "0x00000000000000000000000000000000000000aa";
+
+    assert.equal(
+      TvmTransactionSchema.safeParse(tvmTransaction(evm, OWNER)).success,
+      false,
+    );
+    assert.equal(
+      LenientTransactionSchema.safeParse(tvmTransaction(USDT, evm)).success,
+      false,
+    );
+  });
+
+  it("rejects invalid addresses", () => {
+    assert.equal(
+      TvmTransactionSchema.safeParse(tvmTransaction("0x1234", OWNER)).success,
+      false,
+    );
+  });
+});
+
+describe("lenient schemas", () => {
+  const STATUS = {
+    status: "bridge_partially_filled",
+    steps: [{ type: "teleport", chainId: 8453 }],
+    failure: {
+      reason: "partial fill",
+      status: "refund_partially_succeeded",
+      transactions: [],
+      recovery: null,
+    },
+    transactions: [],
+    zid: "0x0000",
+  };
+
+  it("turns unknown variants into unknown with the raw payload", () => {
+    const step = { type: "teleport", chainId: 8453 };
+
+    assert.equal(StepSchema.safeParse(step).success, false);
+    assert.deepEqual(LenientStepSchema.parse(step), {
+      type: "unknown",
+      raw: step,
+    });
+  });
+
+  it("still validates known variants", () => {
+    assert.equal(
+      LenientStepSchema.safeParse({ type: "bridge", provider: "across" })
+        .success,
+      false,
+    );
+  });
+
+  it("keeps unknown enum values in a status response", () => {
+    const strict = CrossChainStatusResponseSchema.safeParse(STATUS);
+    assert.equal(strict.success, false);
+
+    const parsed = LenientCrossChainStatusResponseSchema.parse(STATUS);
+
+    assert.equal(parsed.status, "bridge_partially_filled");
+    assert.equal(parsed.failure?.status, "refund_partially_succeeded");
+    assert.equal(parsed.steps[0].type, "unknown");
+  });
+
+  it("keeps unknown enum values inside known variants", () => {
+    const strict = z.discriminatedUnion("type", [
+      z.object({
+        type: z.literal("bridge"),
+        speed: z.enum(["fast", "slow"]),
+        legs: z.array(z.object({ mode: z.enum(["lock", "burn"]) })).nullable(),
+      }),
+    ]);
+    const lenient = lenientUnion("type", strict.options);
+    const bridge = {
+      type: "bridge",
+      speed: "instant",
+      legs: [{ mode: "mint" }],
+    };
+
+    assert.equal(strict.safeParse(bridge).success, false);
+    assert.deepEqual(lenient.parse(bridge), bridge);
+    assert.equal(
+      lenient.safeParse({ type: "bridge", speed: 1, legs: null }).success,
+      false,
+    );
+  });
+});
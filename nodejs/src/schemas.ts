@@ -1,25 +1,114 @@
 import { z } from "zod";
+import {
+  AddressForChain,
+  CHAIN_FAMILY_NAMES,
+  getChainFamily,
+  isAddressForFamily,
+  isEvmAddress,
+  isSolanaAddress,
+  isTronAddress,
+  toTronAddress,
+} from "./addresses";
+
+// Branded address schemas — output types match EvmAddress / SolanaAddress / TronAddress
+export const EvmAddressSchema = z
+  .string()
+  .refine(isEvmAddress, "Invalid EVM address format")
+  .brand<"EvmAddress">();
+
+export const SolanaAddressSchema = z
+  .string()
+  .refine(isSolanaAddress, "Invalid Solana address format")
+  .brand<"SolanaAddress">();
+
+export const TronAddressSchema = z
+  .string()
+  .refine(
+    isTronAddress,
+    "Invalid Tron address format (must be Base58Check starting with T)",
+  )
+  .brand<"TronAddress">();
+
+// Tron nodes return hex addresses (`41…`) as well; responses are normalised to base58
+const TronResponseAddressSchema = z.string().transform((value, ctx) => {
+  try {
+    return toTronAddress(value);
+  } catch {
+    ctx.addIssue({
+      code: "custom",
+      message:
+        "Invalid Tron address format (must be Base58Check or 41-prefixed hex)",
+    });
+    return z.NEVER;
+  }
+});
+
+// Address fields of a quotes request and the chain they belong to
+const REQUEST_ADDRESS_FIELDS = [
+  ["originAddress", "originChain"],
+  ["sellToken", "originChain"],
+  ["gasPayer", "originChain"],
+  ["buyToken", "destinationChain"],
+  ["destinationAddress", "destinationChain"],
+] as const;
+type RequestAddressField = (typeof REQUEST_ADDRESS_FIELDS)[number][0];
 
 // Cross-chain quotes request schema
-export const CrossChainQuotesRequestSchema = z.object({
-  originChain: z.union([z.string(), z.number()]),
-  destinationChain: z.union([z.string(), z.number()]),
-  sellToken: z.string(),
-  buyToken: z.string(),
-  sellAmount: z.string(),
-  sortQuotesBy: z.enum(["speed", "price"]),
-  originAddress: z.string(),
-  destinationAddress: z.string().optional(),
-  slippageBps: z.number().optional().default(100),
-  excludedBridges: z.string().optional(),
-  includedBridges: z.string().optional(),
-  excludedSwapSources: z.string().optional(),
-  feeRecipient: z.string().optional(),
-  feeBps: z.string().optional(),
-  feeToken: z.string().optional(),
-  maxNumQuotes: z.number().min(1).max(10).optional().default(3),
-  gasPayer: z.string().optional(),
-});
+export const CrossChainQuotesRequestSchema = z
+  .object({
+    originChain: z.union([z.string(), z.number()]),
+    destinationChain: z.union([z.string(), z.number()]),
+    sellToken: z.string(),
+    buyToken: z.string(),
+    sellAmount: z
+      .string()
+      .regex(/^[1-9]\d*$/, "Must be a positive integer amount in base units"),
+    sortQuotesBy: z.enum(["speed", "price"]),
+    originAddress: z.string(),
+    destinationAddress: z.string().optional(),
+    slippageBps: z.number().int().min(0).max(10000).optional().default(100),
+    excludedBridges: z.array(z.string().min(1)).optional(),
+    includedBridges: z.array(z.string().min(1)).optional(),
+    excludedSwapSources: z.array(z.string().min(1)).optional(),
+    feeRecipient: z.string().optional(),
+    feeBps: z
+      .string()
+      .regex(/^\d+$/, "Must be an integer number of basis points")
+      .refine((bps) => Number(bps) <= 1000, "Must be at most 1000 (10%)")
+      .optional(),
+    feeToken: z.string().optional(),
+    maxNumQuotes: z.number().min(1).max(10).optional().default(3),
+    gasPayer: z.string().optional(),
+  })
+  .superRefine((request, context) => {
+    for (const [field, chainField] of REQUEST_ADDRESS_FIELDS) {
+      const address = request[field];
+      const family = getChainFamily(request[chainField]);
+      // Unknown chains are left for the API to judge
+      if (
+        address !== undefined &&
+        family &&
+        !isAddressForFamily(address, family)
+      ) {
+        context.addIssue({
+          code: "custom",
+          path: [field],
+          message: `Invalid ${CHAIN_FAMILY_NAMES[family]} address for ${chainField} ${request[chainField]}`,
+        });
+      }
+    }
+
+    const conflicting = request.includedBridges?.filter((bridge) =>
+      request.excludedBridges?.includes(bridge),
+    );
+    if (conflicting?.length) {
+      context.addIssue({
+        code: "custom",
+        path: ["excludedBridges"],
+        message: `Bridges cannot be both included and excluded: ${conflicting.join(", ")}`,
+      });
+    }
+  });
 
 // Fee schemas — aligned with cross-chain-common/uv1.ts
 const VolumeFeeSchema = z
@@ -133,7 +222,7 @@ export const StepSchema = z.discriminatedUnion("type", [
 export const EvmTransactionSchema = z.object({
   chainType: z.literal("evm"),
   details: z.object({
-    to: z.string(),
+    to: EvmAddressSchema,
     data: z.string(),
     gas: z.string().nullable(),
     gasPrice: z.string().nullable(),
@@ -151,10 +240,10 @@ export const SvmTransactionSchema = z.object({
 export const TvmTransactionSchema = z.object({
   chainType: z.literal("tvm"),
   details: z.object({
-    to: z.string(),
+    to: TronResponseAddressSchema,
     data: z.string(),
     value: z.string(),
-    ownerAddress: z.string(),
+    ownerAddress: TronResponseAddressSchema,
     memo: z.string().optional(),
   }),
 });
@@ -211,29 +300,77 @@ export const QuoteSchema = z.object({
   quoteId: z.string(),
 });
 
+const LiquidityAvailableResponseSchema = z.object({
+  liquidityAvailable: z.literal(true),
+  allowanceTarget: z.string().nullable(),
+  originChainId: z.number(),
+  originChain: z.string(),
+  destinationChainId: z.number(),
+  destinationChain: z.string(),
+  sellToken: z.string(),
+  buyToken: z.string(),
+  issues: IssuesSchema,
+  zid: z.string(),
+  quotes: z.array(QuoteSchema).min(1),
+});
+
+const NoLiquidityResponseSchema = z.object({
+  liquidityAvailable: z.literal(false),
+  zid: z.string(),
+});
+
 export const CrossChainQuotesResponseSchema = z.discriminatedUnion(
   "liquidityAvailable",
-  [
-    z.object({
-      liquidityAvailable: z.literal(true),
-      allowanceTarget: z.string().nullable(),
-      originChainId: z.number(),
-      originChain: z.string(),
-      destinationChainId: z.number(),
-      destinationChain: z.string(),
-      sellToken: z.string(),
-      buyToken: z.string(),
-      issues: IssuesSchema,
-      zid: z.string(),
-      quotes: z.array(QuoteSchema).min(1),
-    }),
-    z.object({
-      liquidityAvailable: z.literal(false),
-      zid: z.string(),
-    }),
-  ],
+  [LiquidityAvailableResponseSchema, NoLiquidityResponseSchema],
 );
 
+// Streaming quote schemas — each SSE message wraps one event
+// Quote events carry the quote either nested under `quote` or inlined
+const StreamQuoteMetadataSchema = z.object({
+  allowanceTarget: z.string().nullable().optional(),
+  seqNum: z.number().optional(),
+});
+
+function streamQuoteDataSchema<S extends z.ZodRawShape>(
+  quote: z.ZodObject<S>,
+) {
+  return z.union([
+    StreamQuoteMetadataSchema.extend({ quote }),
+    quote.extend(StreamQuoteMetadataSchema.shape),
+  ]);
+}
+
+export const StreamQuoteDataSchema = streamQuoteDataSchema(QuoteSchema);
+
+export const StreamResultDataSchema = z.object({
+  liquidityAvailable: z.boolean(),
+});
+
+export const StreamErrorDataSchema = z.object({
+  message: z.string(),
+  code: z.union([z.string(), z.number()]),
+  type: z.literal("fatal").optional(),
+});
+
+// Stream message schema around the strict or lenient quote schema
+function quoteStreamMessageSchema<S extends z.ZodRawShape>(
+  quote: z.ZodObject<S>,
+) {
+  return z.object({
+    zid: z.string().optional(),
+    event: z.discriminatedUnion("type", [
+      z.object({
+        type: z.literal("quote"),
+        data: streamQuoteDataSchema(quote),
+      }),
+      z.object({ type: z.literal("result"), data: StreamResultDataSchema }),
+      z.object({ type: z.literal("error"), data: StreamErrorDataSchema }),
+    ]),
+  });
+}
+
+export const QuoteStreamMessageSchema = quoteStreamMessageSchema(QuoteSchema);
+
 // Status schemas
 export const TransactionInfoSchema = z.object({
   chainId: z.number(),
@@ -339,20 +476,235 @@ export const CrossChainStatusResponseSchema = z.object({
   zid: z.string(),
 });
 
+// Lenient schemas — accept enum values and variants added to the API after this client.
+// Unknown enum values are kept as strings; unknown variants become `{ [discriminator]: "unknown", raw }`.
+export type UnknownVariant<D extends string> = { [K in D]: "unknown" } & {
+  raw: Record<string, unknown>;
+};
+
+/**
+ * `schema` that also accepts, and keeps, values it does not know
+ */
+export function lenientEnum<T extends z.ZodEnum>(schema: T) {
+  // `string & {}` keeps the known values visible to autocompletion and narrowing
+  return z.union([schema, z.string().transform((value) => value as string & {})]);
+}
+
+type LenientEnum<T extends z.ZodEnum> = ReturnType<typeof lenientEnum<T>>;
+
+/** `T` with its enums made lenient, nested ones included */
+type LenientFields<T> = T extends z.ZodEnum
+  ? LenientEnum<T>
+  : T extends z.ZodObject<infer S, infer C>
+    ? z.ZodObject<{ [K in keyof S]: LenientFields<S[K]> }, C>
+    : T extends z.ZodNullable<infer I>
+      ? z.ZodNullable<LenientFields<I>>
+      : T extends z.ZodOptional<infer I>
+        ? z.ZodOptional<LenientFields<I>>
+        : T extends z.ZodArray<infer I>
+          ? z.ZodArray<LenientFields<I>>
+          : T;
+
+function lenientFields<T extends z.ZodType>(schema: T): LenientFields<T> {
+  let lenient: z.ZodType = schema;
+  if (schema instanceof z.ZodEnum) {
+    lenient = lenientEnum(schema);
+  } else if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodType> = {};
+    for (const [key, field] of Object.entries(schema.shape)) {
+      shape[key] = lenientFields(field as z.ZodType);
+    }
+    lenient = schema.extend(shape);
+  } else if (schema instanceof z.ZodNullable) {
+    lenient = lenientFields(schema.unwrap() as z.ZodType).nullable();
+  } else if (schema instanceof z.ZodOptional) {
+    lenient = lenientFields(schema.unwrap() as z.ZodType).optional();
+  } else if (schema instanceof z.ZodArray) {
+    lenient = z.array(lenientFields(schema.element as z.ZodType));
+  }
+  return lenient as LenientFields<T>;
+}
+
+/**
+ * Discriminated union of `options` that turns variants with an unknown
+ * `discriminator` into an UnknownVariant. Enums inside the known variants are
+ * lenient too.
+ */
+export function lenientUnion<
+  D extends string,
+  O extends readonly [z.ZodObject, ...z.ZodObject[]],
+>(discriminator: D, options: O) {
+  const known = new Set(
+    options.flatMap((option) => [
+      ...(option.shape[discriminator] as z.ZodLiteral).values,
+    ]),
+  );
+  const variants = options.map(lenientFields) as unknown as {
+    -readonly [I in keyof O]: LenientFields<O[I]>;
+  };
+  // Known variants must still match their schema
+  const unknownVariant = z
+    .looseObject({
+      [discriminator]: z.string().refine((value) => !known.has(value)),
+    })
+    .transform((raw) => ({ [discriminator]: "unknown", raw }) as UnknownVariant<D>);
+  return z.union([z.discriminatedUnion(discriminator, variants), unknownVariant]);
+}
+
+export const LenientGasCostsSchema = lenientUnion(
+  "chainType",
+  GasCostsSchema.options,
+);
+export const LenientStepSchema = lenientUnion("type", StepSchema.options);
+export const LenientTransactionSchema = lenientUnion(
+  "chainType",
+  TransactionSchema.options,
+);
+
+export const LenientQuoteSchema = QuoteSchema.extend({
+  gasCosts: LenientGasCostsSchema,
+  steps: z.array(LenientStepSchema),
+  transaction: LenientTransactionSchema,
+});
+
+export const LenientQuoteStreamMessageSchema =
+  quoteStreamMessageSchema(LenientQuoteSchema);
+
+export const LenientCrossChainQuotesResponseSchema = z.discriminatedUnion(
+  "liquidityAvailable",
+  [
+    LiquidityAvailableResponseSchema.extend({
+      quotes: z.array(LenientQuoteSchema).min(1),
+    }),
+    NoLiquidityResponseSchema,
+  ],
+);
+
+export const LenientStatusStepSchema = lenientUnion(
+  "type",
+  StatusStepSchema.options,
+);
+
+export const LenientRecoveryStepSchema = RecoveryStepSchema.extend({
+  manualTransaction: LenientTransactionSchema.nullable(),
+});
+
+export const LenientFailureContextSchema = FailureContextSchema.extend({
+  status: lenientEnum(FailureContextSchema.shape.status),
+  recovery: LenientRecoveryStepSchema.nullable(),
+});
+
+export const LenientCrossChainStatusResponseSchema =
+  CrossChainStatusResponseSchema.extend({
+    status: lenientEnum(CrossChainStatusResponseSchema.shape.status),
+    steps: z.array(LenientStatusStepSchema),
+    failure: LenientFailureContextSchema.nullable(),
+  });
+
+/**
+ * Response schemas used by the client in each schema mode
+ */
+export const RESPONSE_SCHEMAS = {
+  strict: {
+    quotes: CrossChainQuotesResponseSchema,
+    quoteStream: QuoteStreamMessageSchema,
+    status: CrossChainStatusResponseSchema,
+  },
+  lenient: {
+    quotes: LenientCrossChainQuotesResponseSchema,
+    quoteStream: LenientQuoteStreamMessageSchema,
+    status: LenientCrossChainStatusResponseSchema,
+  },
+};
+
+// Error response schema — body returned by the API on non-2xx responses
+export const ApiErrorDetailSchema = z.object({
+  field: z.string(),
+  reason: z.string(),
+});
+
+export const ApiErrorResponseSchema = z.object({
+  name: z.string(),
+  message: z.string(),
+  data: z
+    .object({
+      zid: z.string().optional(),
+      details: z.array(ApiErrorDetailSchema).optional(),
+    })
+    .optional(),
+});
+
 // Exported types
 export type CrossChainQuotesRequest = z.infer<
   typeof CrossChainQuotesRequestSchema
 >;
+/**
+ * Quotes request as accepted by the client, before defaults are applied.
+ * With literal `originChain` / `destinationChain` types (e.g. `CHAINS.tron.quoteId`), addresses
+ * and tokens must carry the matching address brand, e.g. `TronAddress`.
+ */
+export type CrossChainQuotesRequestInput<
+  Origin extends string | number = string | number,
+  Destination extends string | number = string | number,
+> = Omit<
+  z.input<typeof CrossChainQuotesRequestSchema>,
+  "originChain" | "destinationChain" | RequestAddressField
+> & {
+  originChain: Origin;
+  destinationChain: Destination;
+  originAddress: AddressForChain<Origin>;
+  sellToken: AddressForChain<Origin>;
+  gasPayer?: AddressForChain<Origin>;
+  buyToken: AddressForChain<Destination>;
+  destinationAddress?: AddressForChain<Destination>;
+};
 export type CrossChainStatusRequest = z.infer<
   typeof CrossChainStatusRequestSchema
 >;
 export type CrossChainStatusResponse = z.infer<
   typeof CrossChainStatusResponseSchema
 >;
+export type CrossChainStatus = CrossChainStatusResponse["status"];
+export type StatusStep = z.infer<typeof StatusStepSchema>;
+export type TransactionInfo = z.infer<typeof TransactionInfoSchema>;
+export type FailureContext = z.infer<typeof FailureContextSchema>;
+export type RecoveryStep = z.infer<typeof RecoveryStepSchema>;
 export type CrossChainQuotesResponse = z.infer<
   typeof CrossChainQuotesResponseSchema
 >;
 export type Quote = z.infer<typeof QuoteSchema>;
+export type QuoteStreamMessage = z.infer<typeof QuoteStreamMessageSchema>;
 export type Step = z.infer<typeof StepSchema>;
 export type Transaction = z.infer<typeof TransactionSchema>;
 export type Issues = z.infer<typeof IssuesSchema>;
+export type ApiErrorDetail = z.infer<typeof ApiErrorDetailSchema>;
+export type ApiErrorResponse = z.infer<typeof ApiErrorResponseSchema>;
+export type LenientQuote = z.infer<typeof LenientQuoteSchema>;
+export type LenientQuoteStreamMessage = z.infer<
+  typeof LenientQuoteStreamMessageSchema
+>;
+export type LenientCrossChainQuotesResponse = z.infer<
+  typeof LenientCrossChainQuotesResponseSchema
+>;
+export type LenientCrossChainStatusResponse = z.infer<
+  typeof LenientCrossChainStatusResponseSchema
+>;
+export type LenientStatusStep = z.infer<typeof LenientStatusStepSchema>;
+export type LenientFailureContext = z.infer<typeof LenientFailureContextSchema>;
+
+/** "strict" rejects responses that do not match the schemas; "lenient" keeps unknown values */
+export type SchemaMode = keyof typeof RESPONSE_SCHEMAS;
+export type QuotesResponseFor<M extends SchemaMode> = z.infer<
+  (typeof RESPONSE_SCHEMAS)[M]["quotes"]
+>;
+export type QuoteStreamMessageFor<M extends SchemaMode> = z.infer<
+  (typeof RESPONSE_SCHEMAS)[M]["quoteStream"]
+>;
+export type StatusResponseFor<M extends SchemaMode> = z.infer<
+  (typeof RESPONSE_SCHEMAS)[M]["status"]
+>;
+/** Quote type of a schema mode */
+export type QuoteFor<M extends SchemaMode> = Extract<
+  QuotesResponseFor<M>,
+  { liquidityAvailable: true }
+>["quotes"][number];
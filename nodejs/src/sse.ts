@@ -0,0 +1,54 @@
+import { toAbortError } from "./abort";
+
+/**
+ * Read a Server-Sent Events body and yield the `data` payload of every event.
+ * Multi-line `data:` fields are joined with newlines; comments and other fields are ignored.
+ * Breaking out of the loop cancels the underlying stream.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        throw signal?.aborted ? toAbortError(signal) : error;
+      }
+
+      buffer += chunk.done
+        ? decoder.decode() + "\n\n"
+        : decoder.decode(chunk.value, { stream: true });
+
+      // Keep the trailing incomplete line in the buffer
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line === "") {
+          // A blank line dispatches the event
+          if (dataLines.length > 0) {
+            yield dataLines.join("\n");
+            dataLines = [];
+          }
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(line.startsWith("data: ") ? 6 : 5));
+        }
+      }
+
+      if (chunk.done) {
+        return;
+      }
+    }
+  } finally {
+    // Releases the connection when the consumer stops early
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,176 @@
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+
+/**
+ * An exact token amount: raw base units plus the token's decimals and symbol.
+ * Arithmetic and comparisons require amounts of the same token.
+ */
+export class TokenAmount {
+  /** Amount in base units, e.g. wei */
+  readonly raw: bigint;
+  readonly decimals: number;
+  readonly symbol: string | null;
+
+  constructor(raw: bigint | string, decimals: number, symbol?: string | null) {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw new RangeError(`Invalid token decimals: ${decimals}`);
+    }
+    this.raw = typeof raw === "bigint" ? raw : BigInt(raw);
+    this.decimals = decimals;
+    this.symbol = symbol ?? null;
+  }
+
+  /**
+   * Parse a human-readable amount such as "1.5"; more fractional digits than `decimals` throw
+   */
+  static fromDecimal(
+    value: string,
+    decimals: number,
+    symbol?: string | null,
+  ): TokenAmount {
+    const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(value.trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new SyntaxError(`Invalid decimal amount: "${value}"`);
+    }
+
+    const [, sign = "", whole, fraction = ""] = match;
+    if (fraction.length > decimals) {
+      throw new RangeError(
+        `"${value}" has more than ${decimals} decimal places`,
+      );
+    }
+    const digits = `${whole || "0"}${fraction.padEnd(decimals, "0")}`;
+    return new TokenAmount(BigInt(`${sign}${digits}`), decimals, symbol);
+  }
+
+  /**
+   * Exact decimal representation without trailing zeros, e.g. "1.5"
+   */
+  toDecimalString(): string {
+    const negative = this.raw < ZERO;
+    const digits = (negative ? -this.raw : this.raw)
+      .toString()
+      .padStart(this.decimals + 1, "0");
+    const whole = digits.slice(0, digits.length - this.decimals);
+    const fraction = digits
+      .slice(digits.length - this.decimals)
+      .replace(/0+$/, "");
+    return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+  }
+
+  /**
+   * Decimal representation rounded (half away from zero) to `fractionDigits` places
+   */
+  toFixed(fractionDigits: number): string {
+    if (!Number.isInteger(fractionDigits) || fractionDigits < 0) {
+      throw new RangeError(`Invalid fraction digits: ${fractionDigits}`);
+    }
+    let amount: TokenAmount = this;
+    if (fractionDigits < this.decimals) {
+      const divisor = TEN ** BigInt(this.decimals - fractionDigits);
+      const magnitude = this.raw < ZERO ? -this.raw : this.raw;
+      const rounded = (magnitude + divisor / BigInt(2)) / divisor;
+      amount = new TokenAmount(
+        this.raw < ZERO ? -rounded : rounded,
+        fractionDigits,
+      );
+    }
+
+    const [whole, fraction = ""] = amount.toDecimalString().split(".");
+    return fractionDigits > 0
+      ? `${whole}.${fraction.padEnd(fractionDigits, "0")}`
+      : whole;
+  }
+
+  /**
+   * Lossy conversion for charts and rough math; use `raw` for anything exact
+   */
+  toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+
+  /** e.g. "1.5 USDC" */
+  toString(): string {
+    const amount = this.toDecimalString();
+    return this.symbol ? `${amount} ${this.symbol}` : amount;
+  }
+
+  toJSON(): { raw: string; decimals: number; symbol: string | null } {
+    return {
+      raw: this.raw.toString(),
+      decimals: this.decimals,
+      symbol: this.symbol,
+    };
+  }
+
+  plus(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return this.withRaw(this.raw + other.raw);
+  }
+
+  minus(other: TokenAmount): TokenAmount {
+    this.assertSameToken(other);
+    return this.withRaw(this.raw - other.raw);
+  }
+
+  /**
+   * Multiply by `numerator / denominator`, rounding down (e.g. `mulDiv(9_900, 10_000)` for 1% slippage)
+   */
+  mulDiv(
+    numerator: bigint | number,
+    denominator: bigint | number,
+  ): TokenAmount {
+    const divisor = BigInt(denominator);
+    if (divisor === ZERO) {
+      throw new RangeError("Division by zero");
+    }
+    return this.withRaw((this.raw * BigInt(numerator)) / divisor);
+  }
+
+  /** -1, 0 or 1, like a sort comparator */
+  compare(other: TokenAmount): -1 | 0 | 1 {
+    this.assertSameToken(other);
+    return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0;
+  }
+
+  eq(other: TokenAmount): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: TokenAmount): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: TokenAmount): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: TokenAmount): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: TokenAmount): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === ZERO;
+  }
+
+  private withRaw(raw: bigint): TokenAmount {
+    return new TokenAmount(raw, this.decimals, this.symbol);
+  }
+
+  private assertSameToken(other: TokenAmount): void {
+    if (
+      other.decimals !== this.decimals ||
+      (this.symbol !== null &&
+        other.symbol !== null &&
+        other.symbol !== this.symbol)
+    ) {
+      throw new TypeError(
+        `Cannot combine amounts of different tokens (${this.symbol ?? "?"}/${this.decimals} and ${other.symbol ?? "?"}/${other.decimals})`,
+      );
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { MemoryCacheStore } from "./cache";
+import { ChainInfo } from "./chains";
+import {
+  NATIVE_TOKEN_ADDRESS,
+  TokenMetadata,
+  TokenMetadataReader,
+  TokenRegistry,
+} from "./tokens";
+
+const BASE_USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const UNKNOWN_TOKEN = "0x00000000000000000000000000000000000000aa";
+const EMPTY_LIST = { name: "empty", tokens: [] };
+
+// Stands in for the on-chain reads, counting them
+function countingReader(metadata: TokenMetadata): {
+  reader: TokenMetadataReader;
+  reads: () => number;
+} {
+  let count = 0;
+  return {
+    reader: async (_chain: ChainInfo, _address: string) => {
+      count++;
+      return metadata;
+    },
+    reads: () => count,
+  };
+}
+
+describe("TokenRegistry", () => {
+  it("loads the default token list", () => {
+    const registry = new TokenRegistry();
+
+    const usdc = registry.get("base", BASE_USDC.toLowerCase());
+    assert.equal(usdc?.symbol, "USDC");
+    assert.equal(usdc?.decimals, 6);
+    assert.equal(registry.findBySymbol("solana", "wsol")?.isWrapped, true);
+    assert.equal(registry.findBySymbol("tron", "USDT")?.decimals, 6);
+  });
+
+  it("describes the native token placeholder from the chain", () => {
+    const registry = new TokenRegistry({ tokenList: EMPTY_LIST });
+
+    const eth = registry.findBySymbol("base", "ETH");
+    assert.equal(eth?.address, NATIVE_TOKEN_ADDRESS);
+    assert.equal(eth?.isNative, true);
+    assert.equal(eth?.decimals, 18);
+  });
+
+  it("skips tokens on unknown chains and returns them", () => {
+    const registry = new TokenRegistry({ tokenList: EMPTY_LIST });
+    const token = {
+      address: UNKNOWN_TOKEN,
+      symbol: "ABC",
+      name: "ABC",
+      decimals: 8,
+    };
+
+    const skipped = registry.addTokenList({
+      name: "custom",
+      tokens: [
+        { ...token, chainId: 8453 },
+        { ...token, chainId: 123456789 },
+      ],
+    });
+
+    assert.deepEqual(skipped.map((entry) => entry.chainId), [123456789]);
+    assert.equal(registry.get("base", UNKNOWN_TOKEN)?.symbol, "ABC");
+  });
+
+  it("rejects invalid token lists", () => {
+    const registry = new TokenRegistry({ tokenList: EMPTY_LIST });
+
+    assert.throws(() =>
+      registry.addTokenList({
+        name: "broken",
+        tokens: [{ chainId: 8453, address: "0x1" }],
+      } as never),
+    );
+  });
+
+  it("reads unknown tokens once and shares concurrent reads", async () => {
+    const { reader, reads } = countingReader({
+      symbol: "ABC",
+      name: "Alphabet",
+      decimals: 8,
+    });
+    const registry = new TokenRegistry({ readers: { evm: reader } });
+
+    const [first, second] = await Promise.all([
+      registry.resolve("base", UNKNOWN_TOKEN),
+      // EVM addresses are case-insensitive
+      registry.resolve("base", UNKNOWN_TOKEN.replace("aa", "AA")),
+    ]);
+    const third = await registry.resolve("base", UNKNOWN_TOKEN);
+
+    assert.equal(reads(), 1);
+    assert.equal(first, second);
+    assert.equal(third.symbol, "ABC");
+    assert.equal(
+      (await registry.amount("base", UNKNOWN_TOKEN, "150000000")).toString(),
+      "1.5 ABC",
+    );
+  });
+
+  it("reuses reads cached in a shared store", async () => {
+    const store = new MemoryCacheStore();
+    const { reader, reads } = countingReader({
+      symbol: "ABC",
+      name: "Alphabet",
+      decimals: 8,
+    });
+
+    await new TokenRegistry({ store, readers: { evm: reader } }).resolve(
+      "base",
+      UNKNOWN_TOKEN,
+    );
+    const token = await new TokenRegistry({
+      store,
+      readers: { evm: reader },
+    }).resolve("base", UNKNOWN_TOKEN);
+
+    assert.equal(reads(), 1);
+    assert.equal(token.decimals, 8);
+  });
+
+  it("does not read known tokens", async () => {
+    const { reader, reads } = countingReader({
+      symbol: null,
+      name: null,
+      decimals: 0,
+    });
+    const registry = new TokenRegistry({ readers: { evm: reader } });
+
+    assert.equal((await registry.resolve("base", BASE_USDC)).symbol, "USDC");
+    assert.equal(reads(), 0);
+  });
+
+  describe("loadTokenList", () => {
+    let dir = "";
+
+    before(async () => {
+      dir = await mkdtemp(join(tmpdir(), "tokens-"));
+    });
+
+    after(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("adds the tokens of a token list file", async () => {
+      const path = join(dir, "list.json");
+      await writeFile(
+        path,
+        JSON.stringify({
+          name: "file",
+          tokens: [
+            {
+              chainId: 999999999991,
+              address: "So11111111111111111111111111111111111111112",
+              symbol: "SOLX",
+              name: "Solana X",
+              decimals: 9,
+              tags: ["native"],
+            },
+          ],
+        }),
+      );
+      const registry = new TokenRegistry({ tokenList: EMPTY_LIST });
+
+      assert.deepEqual(await registry.loadTokenList(path), []);
+      const token = registry.findBySymbol("solana", "SOLX");
+      assert.equal(token?.isNative, true);
+      // Base58 addresses are case-sensitive
+      assert.equal(
+        registry.get("solana", "so11111111111111111111111111111111111111112"),
+        null,
+      );
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import { readFileSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { z } from "zod";
+import {
+  createPublicClient,
+  decodeAbiParameters,
+  erc20Abi,
+  type Hex,
+} from "viem";
+import { PublicKey } from "@solana/web3.js";
+import { ChainFamily, tronBase58ToHex } from "./addresses";
+import { CacheStore, MemoryCacheStore } from "./cache";
+import { ChainInfo, ChainRef, getChain, requireChain } from "./chains";
+import {
+  createEvmTransport,
+  createFailoverFetch,
+  createSolanaConnection,
+} from "./rpc";
+import { TokenAmount } from "./tokenAmount";
+
+export interface TokenInfo {
+  /** Chain registry name, e.g. "base" */
+  chain: string;
+  address: string;
+  /** `null` when read on-chain from a token without a symbol (e.g. SPL mints) */
+  symbol: string | null;
+  name: string | null;
+  decimals: number;
+  /** The chain's gas token, e.g. ETH behind the 0xEeee… placeholder */
+  isNative: boolean;
+  /** Wrapped gas token such as WETH or WSOL */
+  isWrapped: boolean;
+}
+
+/** Metadata read from the token contract or mint */
+export type TokenMetadata = Pick<TokenInfo, "symbol" | "name" | "decimals">;
+
+export type TokenMetadataReader = (
+  chain: ChainInfo,
+  address: string,
+) => Promise<TokenMetadata>;
+
+// Token list format from https://tokenlists.org
+const TokenListTokenSchema = z.object({
+  chainId: z.number(),
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number().int().min(0),
+  tags: z.array(z.string()).optional(),
+});
+
+export const TokenListSchema = z.object({
+  name: z.string(),
+  tokens: z.array(TokenListTokenSchema),
+});
+
+export type TokenList = z.infer<typeof TokenListSchema>;
+
+/** Placeholder the 0x API uses for the native token of EVM chains */
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+/** Token list with the example tokens, common stablecoins and wrapped gas tokens */
+export const DEFAULT_TOKEN_LIST_PATH = join(__dirname, "tokenList.json");
+
+/**
+ * Tokens by chain and address. Unknown tokens are read on-chain once and cached.
+ */
+export class TokenRegistry {
+  private readonly tokens = new Map<string, TokenInfo>();
+  private readonly pending = new Map<string, Promise<TokenInfo>>();
+  private readonly store: CacheStore;
+  private readonly readers: Record<ChainFamily, TokenMetadataReader>;
+
+  constructor(
+    options: {
+      /** Token list loaded up front; defaults to the one at `DEFAULT_TOKEN_LIST_PATH` */
+      tokenList?: TokenList;
+      /** Where on-chain reads are cached; share a persistent store to skip them across runs */
+      store?: CacheStore;
+      readers?: Partial<Record<ChainFamily, TokenMetadataReader>>;
+    } = {},
+  ) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.readers = { ...DEFAULT_TOKEN_READERS, ...options.readers };
+    this.addTokenList(
+      options.tokenList ??
+        JSON.parse(readFileSync(DEFAULT_TOKEN_LIST_PATH, "utf8")),
+    );
+  }
+
+  add(token: TokenInfo): void {
+    this.tokens.set(tokenKey(token.chain, token.address), token);
+  }
+
+  /**
+   * Add every token of a token list. `chainId`s are looked up in the chain registry
+   * (Solana is 999999999991); tokens on unknown chains are skipped and returned.
+   */
+  addTokenList(list: TokenList): TokenList["tokens"] {
+    const skipped: TokenList["tokens"] = [];
+    for (const entry of TokenListSchema.parse(list).tokens) {
+      const chain = getChain(entry.chainId);
+      if (!chain) {
+        skipped.push(entry);
+        continue;
+      }
+      this.add({
+        chain: chain.name,
+        address: entry.address,
+        symbol: entry.symbol,
+        name: entry.name,
+        decimals: entry.decimals,
+        isNative: entry.tags?.includes("native") ?? false,
+        isWrapped: entry.tags?.includes("wrapped") ?? false,
+      });
+    }
+    return skipped;
+  }
+
+  /**
+   * Read a token list JSON file and add its tokens
+   */
+  async loadTokenList(path: string): Promise<TokenList["tokens"]> {
+    return this.addTokenList(JSON.parse(await readFile(path, "utf8")));
+  }
+
+  /**
+   * Registered token, or `null` without reading the chain
+   */
+  get(chain: ChainRef | ChainInfo, address: string): TokenInfo | null {
+    const info = requireChain(chain);
+    if (
+      info.family === "evm" &&
+      address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase()
+    ) {
+      return {
+        chain: info.name,
+        address,
+        symbol: info.nativeToken.symbol,
+        name: info.viemChain?.nativeCurrency.name ?? info.nativeToken.symbol,
+        decimals: info.nativeToken.decimals,
+        isNative: true,
+        isWrapped: false,
+      };
+    }
+    return this.tokens.get(tokenKey(info.name, address)) ?? null;
+  }
+
+  /**
+   * Registered token by symbol (case-insensitive), or `null`. The gas token
+   * symbol of EVM chains (e.g. "ETH") finds the `0xEeee…` placeholder.
+   */
+  findBySymbol(chain: ChainRef | ChainInfo, symbol: string): TokenInfo | null {
+    const info = requireChain(chain);
+    const wanted = symbol.toLowerCase();
+    if (
+      info.family === "evm" &&
+      info.nativeToken.symbol.toLowerCase() === wanted
+    ) {
+      return this.get(info, NATIVE_TOKEN_ADDRESS);
+    }
+    for (const token of this.tokens.values()) {
+      if (token.chain === info.name && token.symbol?.toLowerCase() === wanted) {
+        return token;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Registered token, falling back to reading its metadata on-chain.
+   * Concurrent calls for the same token share one read.
+   */
+  async resolve(
+    chain: ChainRef | ChainInfo,
+    address: string,
+  ): Promise<TokenInfo> {
+    const info = requireChain(chain);
+    const known = this.get(info, address);
+    if (known) {
+      return known;
+    }
+
+    const key = tokenKey(info.name, address);
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.read(info, address, key).finally(() =>
+        this.pending.delete(key),
+      );
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * `raw` base units of a token as a TokenAmount with its decimals and symbol
+   */
+  async amount(
+    chain: ChainRef | ChainInfo,
+    address: string,
+    raw: bigint | string,
+  ): Promise<TokenAmount> {
+    return toTokenAmount(await this.resolve(chain, address), raw);
+  }
+
+  private async read(
+    chain: ChainInfo,
+    address: string,
+    key: string,
+  ): Promise<TokenInfo> {
+    const cached = (await this.store.get(`token:${key}`)) as
+      | TokenInfo
+      | undefined;
+    if (cached) {
+      this.add(cached);
+      return cached;
+    }
+
+    const metadata = await this.readers[chain.family](chain, address);
+    const token: TokenInfo = {
+      chain: chain.name,
+      address,
+      ...metadata,
+      isNative: false,
+      isWrapped: false,
+    };
+    // Token metadata never changes
+    await this.store.set(`token:${key}`, token, null);
+    this.add(token);
+    return token;
+  }
+}
+
+// EVM addresses are case-insensitive, base58 addresses are not
+function tokenKey(chain: string, address: string): string {
+  const info = getChain(chain);
+  return `${chain}:${info?.family === "evm" ? address.toLowerCase() : address}`;
+}
+
+export function toTokenAmount(
+  token: TokenInfo,
+  raw: bigint | string,
+): TokenAmount {
+  return new TokenAmount(raw, token.decimals, token.symbol);
+}
+
+/**
+ * Amount of a chain's gas token, e.g. network fees
+ */
+export function nativeTokenAmount(
+  chain: ChainRef | ChainInfo,
+  raw: bigint | string,
+): TokenAmount {
+  const { nativeToken } = requireChain(chain);
+  return new TokenAmount(raw, nativeToken.decimals, nativeToken.symbol);
+}
+
+const readErc20Metadata: TokenMetadataReader = async (chain, address) => {
+  const client = createPublicClient({
+    chain: chain.viemChain ?? undefined,
+    transport: createEvmTransport(chain),
+  });
+  const contract = { address: address as Hex, abi: erc20Abi } as const;
+  const [decimals, symbol, name] = await Promise.all([
+    client.readContract({ ...contract, functionName: "decimals" }),
+    client.readContract({ ...contract, functionName: "symbol" }),
+    client.readContract({ ...contract, functionName: "name" }),
+  ]);
+  return { decimals, symbol, name };
+};
+
+// Mints only store decimals; names and symbols live in separate metadata accounts
+const readSplMintMetadata: TokenMetadataReader = async (chain, address) => {
+  const connection = createSolanaConnection(chain);
+  const account = await connection.getParsedAccountInfo(new PublicKey(address));
+  const data = account.value?.data;
+  if (!data || !("parsed" in data) || data.parsed.type !== "mint") {
+    throw new Error(`${address} is not an SPL token mint`);
+  }
+  return { decimals: data.parsed.info.decimals, symbol: null, name: null };
+};
+
+const readTrc20Metadata: TokenMetadataReader = async (chain, address) => {
+  const tronFetch = createFailoverFetch(chain);
+  const call = async (selector: string): Promise<Hex> => {
+    const response = await tronFetch("/wallet/triggerconstantcontract", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        // Constant calls need an owner; the contract itself will do
+        owner_address: tronBase58ToHex(address),
+        contract_address: tronBase58ToHex(address),
+        function_selector: selector,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Tron API error: ${response.status} ${response.statusText}`,
+      );
+    }
+    const result = await response.json();
+    if (!result.constant_result?.[0]) {
+      throw new Error(`${selector} call failed for TRC-20 token ${address}`);
+    }
+    return `0x${result.constant_result[0]}`;
+  };
+
+  const [decimals, symbol, name] = await Promise.all([
+    call("decimals()"),
+    call("symbol()"),
+    call("name()"),
+  ]);
+  return {
+    decimals: Number(BigInt(decimals)),
+    symbol: decodeAbiParameters([{ type: "string" }], symbol)[0],
+    name: decodeAbiParameters([{ type: "string" }], name)[0],
+  };
+};
+
+export const DEFAULT_TOKEN_READERS: Record<ChainFamily, TokenMetadataReader> = {
+  evm: readErc20Metadata,
+  svm: readSplMintMetadata,
+  tvm: readTrc20Metadata,
+};
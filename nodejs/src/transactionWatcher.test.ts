@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CrossChainStatusResponse } from "./schemas";
+import { diffStatus, TransactionWatcher } from "./transactionWatcher";
+
+function status(
+  overrides: Partial<CrossChainStatusResponse>,
+): CrossChainStatusResponse {
+  return {
+    status: "bridge_pending",
+    steps: [],
+    failure: null,
+    transactions: [],
+    zid: "0x0000",
+    ...overrides,
+  };
+}
+
+const SWAP_STEP = {
+  type: "swap",
+  chainId: 8453,
+  sellToken: "0x1",
+  buyToken: "0x2",
+  sellAmount: "1",
+  buyAmount: "1",
+  transactions: [],
+} as unknown as CrossChainStatusResponse["steps"][number];
+
+async function* statuses(...list: CrossChainStatusResponse[]) {
+  yield* list;
+}
+
+describe("diffStatus", () => {
+  it("reports added and removed steps", () => {
+    const withStep = status({ steps: [SWAP_STEP] });
+
+    const added = diffStatus(status({}), withStep);
+    assert.deepEqual(
+      added.map((event) => event.type === "step" && [event.from, event.to]),
+      [[null, SWAP_STEP]],
+    );
+
+    const removed = diffStatus(withStep, status({}));
+    assert.deepEqual(
+      removed.map((event) => event.type === "step" && [event.from, event.to]),
+      [[SWAP_STEP, null]],
+    );
+  });
+});
+
+describe("TransactionWatcher", () => {
+  it("emits every event to listeners", async () => {
+    const watcher = new TransactionWatcher(() =>
+      statuses(status({}), status({ status: "bridge_filled" })),
+    );
+    const seen: string[] = [];
+    watcher.on("change", (event) => seen.push(event.type));
+
+    const outcome = await watcher.result;
+
+    assert.equal(outcome.kind, "completed");
+    assert.deepEqual(seen, ["status", "status"]);
+  });
+
+  it("yields events that happened before the loop started", async () => {
+    const watcher = new TransactionWatcher(() =>
+      statuses(status({}), status({ status: "bridge_filled" })),
+    );
+
+    // Monitoring finishes before anything iterates
+    await watcher.result;
+
+    const seen: (string | null)[] = [];
+    for await (const event of watcher) {
+      seen.push(event.type === "status" ? event.to : null);
+    }
+    assert.deepEqual(seen, ["bridge_pending", "bridge_filled"]);
+  });
+
+  it("stops polling when a loop exits early", async () => {
+    let polls = 0;
+    const watcher = new TransactionWatcher(async function* (signal) {
+      while (!signal.aborted) {
+        polls++;
+        yield status({});
+        await new Promise((resolve) => setTimeout(resolve, 1));
+      }
+      throw signal.reason;
+    });
+
+    for await (const event of watcher) {
+      assert.equal(event.type, "status");
+      break;
+    }
+
+    await assert.rejects(watcher.result, { name: "ZeroExAbortError" });
+    const seen = polls;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal(polls, seen);
+  });
+
+  it("yields every event to a running for await loop", async () => {
+    const watcher = new TransactionWatcher(() =>
+      statuses(
+        status({ steps: [SWAP_STEP] }),
+        status({ status: "bridge_filled" }),
+      ),
+    );
+
+    const seen: string[] = [];
+    for await (const event of watcher) {
+      seen.push(event.type);
+    }
+
+    assert.deepEqual(seen, ["status", "step", "status", "step"]);
+  });
+});
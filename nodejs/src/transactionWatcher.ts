@@ -0,0 +1,241 @@
+import { EventEmitter } from "events";
+import { ZeroExAbortError, ZeroExTimeoutError } from "./errors";
+import {
+  AnyStatusResponse,
+  MonitorOutcome,
+  resolveOutcome,
+} from "./monitorOutcome";
+import { CrossChainStatusResponse, TransactionInfo } from "./schemas";
+
+interface Snapshots<S extends AnyStatusResponse> {
+  /** Status before the change, `null` for the first poll */
+  previous: S | null;
+  /** Status that introduced the change */
+  current: S;
+}
+
+/**
+ * A change between two polls; `S` is the status type of the client's parse modes
+ */
+export type TransactionEvent<
+  S extends AnyStatusResponse = CrossChainStatusResponse,
+> = Snapshots<S> &
+  (
+    | { type: "status"; from: S["status"] | null; to: S["status"] }
+    | {
+        type: "step";
+        index: number;
+        /** `null` for a step that was added */
+        from: S["steps"][number] | null;
+        /** `null` for a step that is no longer reported */
+        to: S["steps"][number] | null;
+      }
+    | { type: "transaction"; transaction: TransactionInfo }
+    | { type: "failure"; from: S["failure"]; to: S["failure"] }
+  );
+
+type EventOfType<
+  S extends AnyStatusResponse,
+  T extends TransactionEvent["type"],
+> = Extract<TransactionEvent<S>, { type: T }>;
+
+interface TransactionWatcherEvents<S extends AnyStatusResponse> {
+  status: [EventOfType<S, "status">];
+  step: [EventOfType<S, "step">];
+  transaction: [EventOfType<S, "transaction">];
+  failure: [EventOfType<S, "failure">];
+  /** Every event above, in the order they happened */
+  change: [TransactionEvent<S>];
+  /** Monitoring ended with an outcome, including `timedOut` */
+  done: [MonitorOutcome<S>];
+  error: [unknown];
+}
+
+/**
+ * List the changes between two consecutive status snapshots
+ */
+export function diffStatus<S extends AnyStatusResponse>(
+  previous: S | null,
+  current: S,
+): TransactionEvent<S>[] {
+  const snapshots = { previous, current };
+  const events: TransactionEvent<S>[] = [];
+
+  if (previous?.status !== current.status) {
+    events.push({
+      ...snapshots,
+      type: "status",
+      from: previous?.status ?? null,
+      to: current.status,
+    });
+  }
+
+  const stepCount = Math.max(
+    previous?.steps.length ?? 0,
+    current.steps.length,
+  );
+  for (let index = 0; index < stepCount; index++) {
+    const before: S["steps"][number] | null = previous?.steps[index] ?? null;
+    const after: S["steps"][number] | null = current.steps[index] ?? null;
+    if (!isEqual(before, after)) {
+      events.push({
+        ...snapshots,
+        type: "step",
+        index,
+        from: before,
+        to: after,
+      });
+    }
+  }
+
+  const seen = new Set(previous?.transactions.map(transactionKey));
+  current.transactions.forEach((transaction) => {
+    if (!seen.has(transactionKey(transaction))) {
+      events.push({ ...snapshots, type: "transaction", transaction });
+    }
+  });
+
+  const previousFailure = previous?.failure ?? null;
+  if (!isEqual(previousFailure, current.failure)) {
+    events.push({
+      ...snapshots,
+      type: "failure",
+      from: previousFailure,
+      to: current.failure,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Watches a cross-chain transaction and reports only what changed between polls.
+ * Consume it either with `for await` or through `on(...)` listeners. Polling
+ * starts immediately and events are buffered from the start, so a `for await`
+ * loop begun later still sees every one of them.
+ */
+export class TransactionWatcher<
+    S extends AnyStatusResponse = CrossChainStatusResponse,
+  >
+  extends EventEmitter<TransactionWatcherEvents<S>>
+  implements AsyncIterable<TransactionEvent<S>>
+{
+  /** Resolves with the outcome, rejects if monitoring fails or is stopped */
+  readonly result: Promise<MonitorOutcome<S>>;
+
+  private readonly controller = new AbortController();
+  private readonly queue: TransactionEvent<S>[] = [];
+  private waiters: (() => void)[] = [];
+  private buffering = true;
+  private closed = false;
+  private failure: { error: unknown } | null = null;
+
+  constructor(
+    poll: (signal: AbortSignal) => AsyncIterable<S>,
+  ) {
+    super();
+    this.result = this.run(poll(this.controller.signal));
+    // Failures are surfaced through the iterator and "error" listeners as well
+    this.result.catch(() => {});
+  }
+
+  /**
+   * Stop polling. Iteration ends normally and `result` rejects with ZeroExAbortError.
+   */
+  stop(): void {
+    this.controller.abort(new ZeroExAbortError("Transaction watcher stopped"));
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<TransactionEvent<S>> {
+    return {
+      next: async () => {
+        while (this.queue.length === 0 && !this.closed) {
+          await new Promise<void>((resolve) => this.waiters.push(resolve));
+        }
+        if (this.queue.length > 0) {
+          return { value: this.queue.shift()!, done: false };
+        }
+        if (this.failure) {
+          const { error } = this.failure;
+          this.failure = null;
+          throw error;
+        }
+        return { value: undefined, done: true };
+      },
+      // Leaving a `for await` loop early stops polling
+      return: async () => {
+        this.buffering = false;
+        this.queue.length = 0;
+        this.stop();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private async run(statuses: AsyncIterable<S>): Promise<MonitorOutcome<S>> {
+    let previous: S | null = null;
+    let outcome: MonitorOutcome<S> | null = null;
+
+    try {
+      for await (const current of statuses) {
+        for (const event of diffStatus(previous, current)) {
+          if (this.buffering) {
+            this.queue.push(event);
+          }
+          this.emit(event.type, event as never);
+          this.emit("change", event);
+        }
+        previous = current;
+        this.wake();
+      }
+      outcome = previous && resolveOutcome(previous);
+      if (!outcome) {
+        throw new Error("Transaction monitoring ended without a final status");
+      }
+    } catch (error) {
+      // The monitoring deadline passing is an outcome, not a failure
+      if (error instanceof ZeroExTimeoutError) {
+        outcome = { kind: "timedOut", status: previous };
+      } else {
+        const stopped = this.controller.signal.aborted;
+        this.close(stopped ? null : { error });
+        // Avoid EventEmitter's crash on unhandled "error" when only iterating
+        if (!stopped && this.listenerCount("error") > 0) {
+          this.emit("error", error);
+        }
+        throw error;
+      }
+    }
+
+    this.close(null);
+    this.emit("done", outcome);
+    return outcome;
+  }
+
+  private close(failure: { error: unknown } | null): void {
+    this.closed = true;
+    this.failure = failure;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
+
+function transactionKey(transaction: TransactionInfo): string {
+  return `${transaction.chainId}:${transaction.txHash}`;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return serialize(a) === serialize(b);
+}
+
+function serialize(value: unknown): string {
+  // Amounts are bigints when the client parses them as such
+  return JSON.stringify(value, (_, field) =>
+    typeof field === "bigint" ? field.toString() : field,
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Any function compatible with the global `fetch`, e.g. a proxied or instrumented one
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Describes one outgoing HTTP request. Middleware may mutate `url` and `headers`.
+ */
+export interface RequestContext {
+  /** Client method that issued the request, e.g. "getQuotes" */
+  operation: string;
+  method: "GET";
+  url: URL;
+  headers: Record<string, string>;
+  /** 1-based attempt number, greater than 1 when the request is being retried */
+  attempt: number;
+}
+
+export interface Middleware {
+  /** Called before the request is sent; mutate the context to add headers, rewrite the URL, ... */
+  onRequest?: (context: RequestContext) => void | Promise<void>;
+  /** Called with every HTTP response; return a Response to replace it */
+  onResponse?: (
+    context: RequestContext,
+    response: Response,
+  ) => Response | void | Promise<Response | void>;
+  /** Called when an attempt fails, before any retry */
+  onError?: (context: RequestContext, error: unknown) => void | Promise<void>;
+}
+
+/**
+ * Serialize request parameters into the query string, skipping undefined values.
+ * Arrays become comma-separated lists and are skipped when empty.
+ */
+export function appendQueryParameters(
+  url: URL,
+  parameters: Record<string, unknown>,
+): void {
+  Object.entries(parameters).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      if (value.length > 0) {
+        url.searchParams.append(key, value.join(","));
+      }
+    } else if (value !== undefined) {
+      url.searchParams.append(key, String(value));
+    }
+  });
+}